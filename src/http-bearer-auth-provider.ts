@@ -0,0 +1,55 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+import { HttpClientAuthProvider } from './http-client-interfaces';
+
+/**
+ * Auth provider sending a static bearer token.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpBearerAuthProvider implements HttpClientAuthProvider {
+    /**
+     * Bearer token
+     */
+    public token: string;
+
+    /**
+     * Constructor (HttpBearerAuthProvider)
+     *
+     * @param token Bearer token
+     *
+     * @since v1.2.0
+     */
+    constructor(token: string) {
+        this.token = token;
+    }
+
+    /**
+     * Returns the "Authorization" header value.
+     *
+     * @return Header value
+     * @since  v1.2.0
+     */
+    public getAuthorization() {
+        return `Bearer ${this.token}`;
+    }
+}
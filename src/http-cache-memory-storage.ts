@@ -0,0 +1,107 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+import { HttpCacheEntry, HttpCacheStorage } from './http-client-interfaces';
+
+/**
+ * In-memory HTTP cache storage evicting the least recently used entries.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpCacheMemoryStorage implements HttpCacheStorage {
+    /**
+     * Cache entries in the order of their last use
+     */
+    protected entries: Map<string, HttpCacheEntry>;
+    /**
+     * Maximum number of entries stored
+     */
+    protected maxEntries: number;
+
+    /**
+     * Constructor (HttpCacheMemoryStorage)
+     *
+     * @param maxEntries Maximum number of entries stored
+     *
+     * @since v1.2.0
+     */
+    constructor(maxEntries = 100) {
+        this.entries = new Map<string, HttpCacheEntry>();
+        this.maxEntries = maxEntries;
+    }
+
+    /**
+     * Removes all entries.
+     *
+     * @since v1.2.0
+     */
+    public clear() {
+        this.entries.clear();
+    }
+
+    /**
+     * Removes the entry for the given key.
+     *
+     * @param key Cache key
+     *
+     * @since v1.2.0
+     */
+    public delete(key: string) {
+        this.entries.delete(key);
+    }
+
+    /**
+     * Returns the entry for the given key.
+     *
+     * @param key Cache key
+     *
+     * @return Cache entry; undefined if not stored
+     * @since  v1.2.0
+     */
+    public get(key: string) {
+        const _return = this.entries.get(key);
+
+        if (_return) {
+            // Move the entry to the end as the most recently used one
+            this.entries.delete(key);
+            this.entries.set(key, _return);
+        }
+
+        return _return;
+    }
+
+    /**
+     * Stores the entry for the given key.
+     *
+     * @param key Cache key
+     * @param entry Cache entry
+     *
+     * @since v1.2.0
+     */
+    public set(key: string, entry: HttpCacheEntry) {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value as string);
+        }
+    }
+}
@@ -0,0 +1,357 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+import {
+    HttpCacheEntry,
+    HttpCacheOptions,
+    HttpCacheStorage,
+    HttpClientMiddleware,
+    HttpClientMiddlewareContext,
+    HttpClientMiddlewareNext,
+    HttpClientResponse
+} from './http-client-interfaces';
+
+import { HttpCacheMemoryStorage } from './http-cache-memory-storage';
+
+/**
+ * Client-side HTTP response cache for GET requests honouring "Cache-Control"
+ * and "Expires" and revalidating responses with "ETag" and "Last-Modified".
+ * The cache may be shared by clients using different credentials. Responses
+ * to requests with an "Authorization" or "Cookie" header are therefore only
+ * stored if marked "public". Cookies added by a cookie jar or the browser
+ * are not visible to the cache.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpCache {
+    /**
+     * True to honour "stale-while-revalidate" or the default period in
+     * seconds to be used
+     */
+    protected staleWhileRevalidate: boolean | number;
+    /**
+     * Storage for cache entries
+     */
+    protected storage: HttpCacheStorage;
+
+    /**
+     * Constructor (HttpCache)
+     *
+     * @param options HTTP cache options
+     *
+     * @since v1.2.0
+     */
+    constructor(options: HttpCacheOptions = { }) {
+        this.staleWhileRevalidate = (options.staleWhileRevalidate ? options.staleWhileRevalidate : false);
+        this.storage = (options.storage ? options.storage : new HttpCacheMemoryStorage());
+    }
+
+    /**
+     * Returns the middleware to be registered for HTTP clients using this
+     * cache.
+     *
+     * @return Middleware
+     * @since  v1.2.0
+     */
+    public get middleware(): HttpClientMiddleware {
+        return (context: HttpClientMiddlewareContext, next: HttpClientMiddlewareNext) => this.handle(context, next);
+    }
+
+    /**
+     * Removes all entries cached.
+     *
+     * @since v1.2.0
+     */
+    public async clear() {
+        await this.storage.clear();
+    }
+
+    /**
+     * Removes the entry cached for the given URL.
+     *
+     * @param url URL requested
+     *
+     * @since v1.2.0
+     */
+    public async delete(url: string) {
+        await this.storage.delete(HttpCache.getKey(url));
+    }
+
+    /**
+     * Returns the cached response for the request if fresh and revalidates
+     * or requests it otherwise.
+     *
+     * @param context Middleware context
+     * @param next Callback to continue with the next middleware
+     *
+     * @return Response data
+     * @since  v1.2.0
+     */
+    protected async handle(context: HttpClientMiddlewareContext, next: HttpClientMiddlewareNext) {
+        const cacheMode = context.requestInit.cache;
+
+        if (context.method.toUpperCase() !== 'GET' || cacheMode === 'no-store' || cacheMode === 'reload') {
+            return await next();
+        }
+
+        const headers = context.requestInit.headers as Headers;
+        const key = HttpCache.getKey(context.request.url);
+
+        let entry = await this.storage.get(key);
+
+        if (entry && Object.keys(entry.vary).some((name: string) => entry.vary[name] !== headers.get(name))) {
+            entry = undefined;
+        }
+
+        if (entry && cacheMode !== 'no-cache') {
+            const now = Date.now();
+
+            if (now < entry.expires) {
+                return HttpCache.newResponse(entry);
+            }
+
+            if (now < (entry.expires + entry.staleWhileRevalidate)) {
+                this.revalidate(key, entry, headers, next).catch(() => { /* Stale entry is kept on errors */ });
+                return HttpCache.newResponse(entry);
+            }
+        }
+
+        return await this.revalidate(key, entry, headers, next);
+    }
+
+    /**
+     * Returns a new cache entry for the response if it may be stored. The
+     * entry contains a copy of the response body.
+     *
+     * @param response Response data
+     * @param requestHeaders Request headers
+     *
+     * @return Cache entry; undefined if not cacheable
+     * @since  v1.2.0
+     */
+    protected newEntry(response: HttpClientResponse, requestHeaders: Headers) {
+        if (response.code !== 200 || response.rawResponse || HttpCache.isStreamed(response.body)) {
+            return undefined;
+        }
+
+        const cacheControl = HttpCache.parseCacheControl(response.headers.cache_control as string);
+
+        if ('no-store' in cacheControl || response.headers.vary === '*') {
+            return undefined;
+        }
+
+        // Responses for credentials must not be served to other clients
+        if ((requestHeaders.has('authorization') || requestHeaders.has('cookie')) && (!('public' in cacheControl))) {
+            return undefined;
+        }
+
+        const now = Date.now();
+        let expires: number;
+
+        if ('no-cache' in cacheControl) {
+            expires = now;
+        } else if ('max-age' in cacheControl) {
+            const age = parseInt(response.headers.age as string, 10);
+            expires = now + ((parseInt(cacheControl['max-age'], 10) - (isNaN(age) ? 0 : age)) * 1000);
+        } else if (response.headers.expires) {
+            expires = Date.parse(response.headers.expires as string);
+        }
+
+        if (expires === undefined || isNaN(expires)) {
+            // Responses without freshness information can only be revalidated
+            if ((!response.headers.etag) && (!response.headers.last_modified)) {
+                return undefined;
+            }
+
+            expires = now;
+        }
+
+        let staleWhileRevalidate = 0;
+
+        if (this.staleWhileRevalidate) {
+            const seconds = (
+                'stale-while-revalidate' in cacheControl
+                ? parseInt(cacheControl['stale-while-revalidate'], 10)
+                : (typeof this.staleWhileRevalidate == 'number' ? this.staleWhileRevalidate : 0)
+            );
+
+            staleWhileRevalidate = (isNaN(seconds) ? 0 : seconds * 1000);
+        }
+
+        const vary = { } as { [key: string]: string };
+
+        if (response.headers.vary) {
+            for (const name of (response.headers.vary as string).split(',')) {
+                if (name.trim()) {
+                    vary[name.trim().toLowerCase()] = requestHeaders.get(name.trim());
+                }
+            }
+        }
+
+        return {
+            body: HttpCache.cloneBody(response.body),
+            code: response.code,
+            expires,
+            headers: response.headers,
+            staleWhileRevalidate,
+            vary
+        } as HttpCacheEntry;
+    }
+
+    /**
+     * Requests the resource conditionally if a cache entry is given and
+     * updates the cache.
+     *
+     * @param key Cache key
+     * @param entry Cache entry to be revalidated
+     * @param headers Request headers
+     * @param next Callback to continue with the next middleware
+     *
+     * @return Response data
+     * @since  v1.2.0
+     */
+    protected async revalidate(key: string, entry: HttpCacheEntry, headers: Headers, next: HttpClientMiddlewareNext) {
+        const requestHeaders = new Headers(headers);
+
+        if (entry) {
+            if (entry.headers.etag && (!headers.has('if-none-match'))) {
+                headers.set('if-none-match', entry.headers.etag as string);
+            }
+
+            if (entry.headers.last_modified && (!headers.has('if-modified-since'))) {
+                headers.set('if-modified-since', entry.headers.last_modified as string);
+            }
+        }
+
+        let response = await next();
+
+        if (entry && response.code === 304) {
+            const updatedEntry = this.newEntry(
+                // eslint-disable-next-line sort-keys
+                { code: entry.code, headers: { ...entry.headers, ...response.headers }, body: entry.body },
+                requestHeaders
+            );
+
+            if (updatedEntry) {
+                await this.storage.set(key, updatedEntry);
+            }
+
+            response = HttpCache.newResponse(updatedEntry ? updatedEntry : entry);
+        } else {
+            const newEntry = this.newEntry(response, requestHeaders);
+
+            if (newEntry) {
+                await this.storage.set(key, newEntry);
+            } else if (entry) {
+                await this.storage.delete(key);
+            }
+        }
+
+        return response;
+    }
+
+    /**
+     * Returns a copy of the given response body not shared with callers.
+     *
+     * @param body Response body
+     *
+     * @return Response body copied
+     * @since  v1.2.0
+     */
+    protected static cloneBody(body: unknown) {
+        let _return = body;
+
+        // Blobs are immutable and shared
+        if (body !== null && typeof body == 'object' && (!(typeof Blob != 'undefined' && body instanceof Blob))) {
+            _return = (
+                typeof structuredClone == 'function'
+                ? structuredClone(body) as unknown
+                : JSON.parse(JSON.stringify(body)) as unknown
+            );
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns the cache key for the given URL.
+     *
+     * @param url URL requested
+     *
+     * @return Cache key
+     * @since  v1.2.0
+     */
+    protected static getKey(url: string) {
+        return `GET ${url}`;
+    }
+
+    /**
+     * Returns true if the given body is read as a stream.
+     *
+     * @param body Response body
+     *
+     * @return True if streamed
+     * @since  v1.2.0
+     */
+    protected static isStreamed(body: unknown) {
+        return (body !== null && typeof body == 'object' && Symbol.asyncIterator in body);
+    }
+
+    /**
+     * Returns a new response for the given cache entry. The body is copied
+     * to keep the entry unchanged by callers.
+     *
+     * @param entry Cache entry
+     *
+     * @return Response data
+     * @since  v1.2.0
+     */
+    protected static newResponse(entry: HttpCacheEntry) {
+        // eslint-disable-next-line sort-keys
+        return { code: entry.code, headers: { ...entry.headers }, body: HttpCache.cloneBody(entry.body) } as HttpClientResponse;
+    }
+
+    /**
+     * Parses the given "Cache-Control" header value.
+     *
+     * @param value "Cache-Control" header value
+     *
+     * @return Directives with their values
+     * @since  v1.2.0
+     */
+    protected static parseCacheControl(value?: string) {
+        const _return = { } as { [key: string]: string };
+
+        if (value) {
+            for (const directive of value.split(',')) {
+                const index = directive.indexOf('=');
+
+                const name = (index < 0 ? directive : directive.slice(0, index)).trim().toLowerCase();
+
+                if (name) {
+                    _return[name] = (index < 0 ? '' : directive.slice(index + 1).trim().replace(/^"|"$/g, ''));
+                }
+            }
+        }
+
+        return _return;
+    }
+}
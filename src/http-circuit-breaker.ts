@@ -0,0 +1,389 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+
+import { AbortError, CircuitOpenError, NetworkError, TimeoutError } from './http-client-errors';
+import {
+    HttpCircuitBreakerEvent,
+    HttpCircuitBreakerListener,
+    HttpCircuitBreakerOptions,
+    HttpCircuitBreakerState
+} from './http-client-interfaces';
+
+/**
+ * Outcome of a request within the rolling window
+ */
+type HttpCircuitBreakerOutcome = {
+    isFailure: boolean,
+    time: number
+};
+
+/**
+ * Circuit state of a host. "epoch" is increased with each state change to
+ * ignore outcomes of requests sent before.
+ */
+type HttpCircuitBreakerHost = {
+    epoch: number,
+    key: string,
+    openedAt: number,
+    outcomes: HttpCircuitBreakerOutcome[],
+    state: HttpCircuitBreakerState,
+    trials: number
+};
+
+/**
+ * Circuit breaker shareable by HTTP clients failing requests fast while a
+ * host is degraded. Circuits are kept per "scheme://host:port".
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpCircuitBreaker {
+    /**
+     * Default circuit breaker options
+     */
+    public static readonly DEFAULT_OPTIONS: HttpCircuitBreakerOptions = {
+        coolDown: 30000,
+        failureThreshold: 5,
+        halfOpenRequests: 1,
+        minimumRequests: 10,
+        successThreshold: 1,
+        windowSize: 60000
+    };
+
+    /**
+     * Circuit state by host
+     */
+    protected hosts = new Map<string, HttpCircuitBreakerHost>();
+    /**
+     * Listeners registered for state changes
+     */
+    protected listeners = [ ] as HttpCircuitBreakerListener[];
+    /**
+     * Circuit breaker options
+     */
+    protected options: HttpCircuitBreakerOptions;
+
+    /**
+     * Constructor (HttpCircuitBreaker)
+     *
+     * @param options Circuit breaker options
+     *
+     * @since v1.2.0
+     */
+    constructor(options: HttpCircuitBreakerOptions = { }) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        this.options = { ...this.instanceClass.DEFAULT_OPTIONS as HttpCircuitBreakerOptions, ...options };
+
+        if (this.options.onStateChange) {
+            this.listeners.push(this.options.onStateChange);
+        }
+    }
+
+    /**
+     * Returns the class object of this instance.
+     *
+     * @return Class object
+     * @since  v1.2.0
+     */
+    protected get instanceClass() {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-return
+        return Object.getPrototypeOf(this).constructor;
+    }
+
+    /**
+     * Permits a request to the given URL or throws a "CircuitOpenError" if
+     * the circuit of its host is open. The callback returned is called with
+     * the response or error to record the outcome.
+     *
+     * @param url Request URL
+     *
+     * @return Callback recording the outcome of the request
+     * @since  v1.2.0
+     */
+    public acquire(url: string) {
+        const host = this.getHost(url);
+        this.updateState(host);
+
+        if (host.state === 'open') {
+            throw new CircuitOpenError(host.key, Math.max(0, host.openedAt + this.options.coolDown - Date.now()));
+        }
+
+        const epoch = host.epoch;
+        const isTrial = (host.state === 'half-open');
+
+        if (isTrial) {
+            if (host.trials >= this.options.halfOpenRequests) {
+                throw new CircuitOpenError(host.key, 0);
+            }
+
+            host.trials++;
+        }
+
+        let isRecorded = false;
+
+        return (response?: Response, error?: Error) => {
+            if (isRecorded || epoch !== host.epoch) {
+                return;
+            }
+
+            isRecorded = true;
+
+            if (isTrial) {
+                host.trials--;
+            }
+
+            // Requests aborted by the caller tell nothing about the host
+            if (!(error instanceof AbortError)) {
+                this.record(host, this.isFailure(response, error));
+            }
+        };
+    }
+
+    /**
+     * Calls all listeners registered with the given event. Errors thrown by
+     * listeners are ignored.
+     *
+     * @param event State change
+     *
+     * @since v1.2.0
+     */
+    protected dispatch(event: HttpCircuitBreakerEvent) {
+        for (const listener of this.listeners.slice()) {
+            try {
+                listener(event);
+            } catch (handledException) {
+                // Ignored
+            }
+        }
+    }
+
+    /**
+     * Returns the circuit state of the host of the given URL and creates it
+     * if required.
+     *
+     * @param url Request URL
+     *
+     * @return Circuit state of the host
+     * @since  v1.2.0
+     */
+    protected getHost(url: string) {
+        const key = this.getHostKey(url);
+        let _return = this.hosts.get(key);
+
+        if (!_return) {
+            _return = { epoch: 0, key, openedAt: 0, outcomes: [ ], state: 'closed', trials: 0 };
+            this.hosts.set(key, _return);
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns the key of the host of the given URL.
+     *
+     * @param url Request URL
+     *
+     * @return Host given as "scheme://host:port"
+     * @since  v1.2.0
+     */
+    protected getHostKey(url: string) {
+        const parsedUrl = new URL(url);
+        let port = parsedUrl.port;
+
+        if (!port) {
+            port = ((parsedUrl.protocol === 'https:' || parsedUrl.protocol === 'wss:') ? '443' : '80');
+        }
+
+        return `${parsedUrl.protocol}//${parsedUrl.hostname}:${port}`;
+    }
+
+    /**
+     * Returns the circuit state of the host of the given URL. An open circuit
+     * becomes half-open once the cool-down has elapsed.
+     *
+     * @param url Request URL
+     *
+     * @return Circuit state
+     * @since  v1.2.0
+     */
+    public getState(url: string) {
+        const host = this.getHost(url);
+        this.updateState(host);
+
+        return host.state;
+    }
+
+    /**
+     * Returns true if the given response or error counts as a failure.
+     *
+     * @param response Response received
+     * @param error Error occurred
+     *
+     * @return True if failed
+     * @since  v1.2.0
+     */
+    protected isFailure(response?: Response, error?: Error) {
+        if (this.options.isFailure) {
+            return this.options.isFailure(response, error);
+        }
+
+        return (
+            error instanceof NetworkError
+            || error instanceof TimeoutError
+            || ((!error) && response !== undefined && response.status >= 500)
+        );
+    }
+
+    /**
+     * Removes a listener registered for state changes.
+     *
+     * @param listener Listener
+     *
+     * @return Circuit breaker instance
+     * @since  v1.2.0
+     */
+    public off(listener: HttpCircuitBreakerListener) {
+        const index = this.listeners.indexOf(listener);
+
+        if (index > -1) {
+            this.listeners.splice(index, 1);
+        }
+
+        return this;
+    }
+
+    /**
+     * Registers a listener for state changes.
+     *
+     * @param listener Listener
+     *
+     * @return Circuit breaker instance
+     * @since  v1.2.0
+     */
+    public on(listener: HttpCircuitBreakerListener) {
+        this.listeners.push(listener);
+        return this;
+    }
+
+    /**
+     * Records the outcome of a request and changes the circuit state if
+     * required.
+     *
+     * @param host Circuit state of the host
+     * @param isFailure True if the request failed
+     *
+     * @since v1.2.0
+     */
+    protected record(host: HttpCircuitBreakerHost, isFailure: boolean) {
+        const now = Date.now();
+
+        host.outcomes.push({ isFailure, time: now });
+
+        if (host.state === 'half-open') {
+            if (isFailure) {
+                this.setState(host, 'open');
+            } else if (host.outcomes.length >= this.options.successThreshold) {
+                this.setState(host, 'closed');
+            }
+        } else {
+            while (host.outcomes.length > 0 && host.outcomes[0].time <= now - this.options.windowSize) {
+                host.outcomes.shift();
+            }
+
+            if (isFailure) {
+                const failures = host.outcomes.filter((outcome: HttpCircuitBreakerOutcome) => outcome.isFailure).length;
+                const ratio = this.options.failureRatio;
+
+                if (
+                    failures >= this.options.failureThreshold
+                    || (
+                        ratio !== undefined
+                        && host.outcomes.length >= this.options.minimumRequests
+                        && failures / host.outcomes.length >= ratio
+                    )
+                ) {
+                    this.setState(host, 'open');
+                }
+            }
+        }
+    }
+
+    /**
+     * Closes the circuit of the host of the given URL or of all hosts.
+     *
+     * @param url Request URL; undefined for all hosts
+     *
+     * @since v1.2.0
+     */
+    public reset(url?: string) {
+        const hosts = (url === undefined ? Array.from(this.hosts.values()) : [ this.getHost(url) ]);
+
+        for (const host of hosts) {
+            if (host.state === 'closed') {
+                host.outcomes = [ ];
+            } else {
+                this.setState(host, 'closed');
+            }
+        }
+    }
+
+    /**
+     * Changes the circuit state of the given host and notifies the listeners.
+     *
+     * @param host Circuit state of the host
+     * @param state New state
+     *
+     * @since v1.2.0
+     */
+    protected setState(host: HttpCircuitBreakerHost, state: HttpCircuitBreakerState) {
+        const event: HttpCircuitBreakerEvent = {
+            failures: host.outcomes.filter((outcome: HttpCircuitBreakerOutcome) => outcome.isFailure).length,
+            host: host.key,
+            previousState: host.state,
+            requests: host.outcomes.length,
+            state
+        };
+
+        host.epoch++;
+        host.outcomes = [ ];
+        host.state = state;
+        host.trials = 0;
+
+        if (state === 'open') {
+            host.openedAt = Date.now();
+        }
+
+        this.dispatch(event);
+    }
+
+    /**
+     * Changes an open circuit to half-open once the cool-down has elapsed.
+     *
+     * @param host Circuit state of the host
+     *
+     * @since v1.2.0
+     */
+    protected updateState(host: HttpCircuitBreakerHost) {
+        if (host.state === 'open' && Date.now() - host.openedAt >= this.options.coolDown) {
+            this.setState(host, 'half-open');
+        }
+    }
+}
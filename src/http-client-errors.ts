@@ -0,0 +1,400 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+import { HttpClientRedirect, MapObject, ProblemDetails } from './http-client-interfaces';
+
+/**
+ * Base class of all errors raised by the HTTP client.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpClientError extends Error {
+    /**
+     * Underlying exception if any
+     */
+    public readonly cause: unknown;
+
+    /**
+     * Constructor (HttpClientError)
+     *
+     * @param message Error message
+     * @param cause Underlying exception
+     *
+     * @since v1.2.0
+     */
+    constructor(message: string, cause?: unknown) {
+        super(message);
+
+        // Restore the prototype chain for ES5 targets
+        Object.setPrototypeOf(this, new.target.prototype);
+
+        this.cause = cause;
+        this.name = 'HttpClientError';
+    }
+}
+
+/**
+ * Error raised if the request has been aborted.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class AbortError extends HttpClientError {
+    /**
+     * Constructor (AbortError)
+     *
+     * @param cause Underlying exception
+     *
+     * @since v1.2.0
+     */
+    constructor(cause?: unknown) {
+        super('Request aborted', cause);
+        this.name = 'AbortError';
+    }
+}
+
+/**
+ * Error raised without sending the request while the circuit breaker of the
+ * host is open.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class CircuitOpenError extends HttpClientError {
+    /**
+     * Host given as "scheme://host:port"
+     */
+    public readonly host: string;
+    /**
+     * Milliseconds until trial requests are sent; 0 while they are in flight
+     */
+    public readonly retryAfter: number;
+
+    /**
+     * Constructor (CircuitOpenError)
+     *
+     * @param host Host given as "scheme://host:port"
+     * @param retryAfter Milliseconds until trial requests are sent
+     *
+     * @since v1.2.0
+     */
+    constructor(host: string, retryAfter: number) {
+        super(`Circuit breaker is open for ${host}`);
+
+        this.host = host;
+        this.name = 'CircuitOpenError';
+        this.retryAfter = retryAfter;
+    }
+}
+
+/**
+ * Error raised if the response body received can not be decoded.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class DecodeError extends HttpClientError {
+    /**
+     * Raw response body if available
+     */
+    public readonly body: unknown;
+
+    /**
+     * Constructor (DecodeError)
+     *
+     * @param message Error message
+     * @param body Raw response body
+     * @param cause Underlying exception
+     *
+     * @since v1.2.0
+     */
+    constructor(message: string, body?: unknown, cause?: unknown) {
+        super(message, cause);
+
+        this.body = body;
+        this.name = 'DecodeError';
+    }
+}
+
+/**
+ * Error for responses received with an unsuccessful HTTP status code.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpStatusError extends HttpClientError {
+    /**
+     * Parsed response body
+     */
+    public body: unknown;
+    /**
+     * HTTP status code
+     */
+    public readonly code: number;
+    /**
+     * Response headers
+     */
+    public readonly headers: MapObject;
+    /**
+     * Problem Details decoded from an "application/problem+json" body
+     */
+    public readonly problem: ProblemDetails;
+    /**
+     * HTTP status text
+     */
+    public readonly statusText: string;
+
+    /**
+     * Constructor (HttpStatusError)
+     *
+     * @param code HTTP status code
+     * @param statusText HTTP status text
+     * @param headers Response headers
+     * @param body Parsed response body
+     *
+     * @since v1.2.0
+     */
+    constructor(code: number, statusText: string, headers: MapObject, body?: unknown) {
+        super(statusText ? `${code} ${statusText}` : String(code));
+
+        this.body = body;
+        this.code = code;
+        this.headers = headers;
+        this.name = 'HttpStatusError';
+        this.problem = HttpStatusError.getProblemDetails(headers, body);
+        this.statusText = statusText;
+    }
+
+    /**
+     * Returns the Problem Details of the given body if received as a Problem
+     * Details document. Standard members of an invalid type are ignored.
+     *
+     * @param headers Response headers
+     * @param body Parsed response body
+     *
+     * @return Problem Details; undefined if not received
+     * @since  v1.2.0
+     */
+    protected static getProblemDetails(headers: MapObject, body: unknown) {
+        const contentType = (headers ? headers.content_type as string : undefined);
+        let _return: ProblemDetails;
+
+        if (
+            contentType
+            && (/^application\/problem\+(json|xml)\s*(;|$)/i).test(contentType.trim())
+            && body !== null
+            && typeof body == 'object'
+            && (!Array.isArray(body))
+        ) {
+            const problem = body as MapObject;
+            _return = { ...problem, type: (typeof problem.type == 'string' && problem.type ? problem.type : 'about:blank') };
+
+            for (const member of [ 'detail', 'instance', 'title' ]) {
+                if (member in _return && typeof _return[member] != 'string') {
+                    delete(_return[member]);
+                }
+            }
+
+            if ('status' in _return && (typeof _return.status != 'number' || _return.status % 1 !== 0)) {
+                delete(_return.status);
+            }
+        }
+
+        return _return;
+    }
+}
+
+/**
+ * Error raised if the request failed because of a network error.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class NetworkError extends HttpClientError {
+    /**
+     * Constructor (NetworkError)
+     *
+     * @param cause Underlying exception
+     *
+     * @since v1.2.0
+     */
+    constructor(cause?: unknown) {
+        super((cause instanceof Error ? `Network error: ${cause.message}` : 'Network error'), cause);
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * Error raised if the maximum number of redirects has been exceeded or if a
+ * redirect can not be followed as defined by the redirect policy.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class RedirectError extends HttpClientError {
+    /**
+     * Redirects followed
+     */
+    public readonly redirects: HttpClientRedirect[];
+
+    /**
+     * Constructor (RedirectError)
+     *
+     * @param redirects Redirects followed including the one exceeding the
+     *        maximum
+     * @param message Error message
+     *
+     * @since v1.2.0
+     */
+    constructor(redirects: HttpClientRedirect[], message = 'Maximum number of redirects exceeded') {
+        super(message);
+
+        this.name = 'RedirectError';
+        this.redirects = redirects;
+    }
+}
+
+/**
+ * Error raised if the response body exceeds the maximum size allowed.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class ResponseTooLargeError extends HttpClientError {
+    /**
+     * Maximum response size in bytes
+     */
+    public readonly maxSize: number;
+
+    /**
+     * Constructor (ResponseTooLargeError)
+     *
+     * @param maxSize Maximum response size in bytes
+     *
+     * @since v1.2.0
+     */
+    constructor(maxSize: number) {
+        super(`Response body exceeds the maximum size of ${maxSize} bytes`);
+
+        this.maxSize = maxSize;
+        this.name = 'ResponseTooLargeError';
+    }
+}
+
+/**
+ * Error raised if no response has been received within the timeout.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class TimeoutError extends HttpClientError {
+    /**
+     * Timeout in milliseconds
+     */
+    public readonly timeout: number;
+
+    /**
+     * Constructor (TimeoutError)
+     *
+     * @param timeout Timeout in milliseconds
+     *
+     * @since v1.2.0
+     */
+    constructor(timeout?: number) {
+        super('Timeout occurred');
+
+        this.name = 'TimeoutError';
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Error raised if the response body received does not pass validation.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class ValidationError extends HttpClientError {
+    /**
+     * Decoded response body
+     */
+    public readonly body: unknown;
+    /**
+     * List of validation errors reported
+     */
+    public readonly errors: string[];
+
+    /**
+     * Constructor (ValidationError)
+     *
+     * @param errors List of validation errors reported
+     * @param body Decoded response body
+     * @param cause Underlying exception
+     *
+     * @since v1.2.0
+     */
+    constructor(errors: string[], body?: unknown, cause?: unknown) {
+        super(
+            (errors.length > 0 ? `Response body validation failed: ${errors.join('; ')}` : 'Response body validation failed'),
+            cause
+        );
+
+        this.body = body;
+        this.errors = errors;
+        this.name = 'ValidationError';
+    }
+}
@@ -14,6 +14,276 @@
  * @license Mozilla Public License, v. 2.0
  */
 
+import { HttpCache } from './http-cache';
+import { HttpCircuitBreaker } from './http-circuit-breaker';
+import { HttpCodecRegistry } from './http-codec-registry';
+import { HttpCookieJar } from './http-cookie-jar';
+import { HttpScheduler } from './http-scheduler';
+
+/**
+ * Response stored in the HTTP cache. Timestamps are given in milliseconds.
+ * "vary" contains the request header values the response varies on.
+ *
+ * @since v1.2.0
+ */
+export type HttpCacheEntry = {
+    body: unknown,
+    code: number,
+    expires: number,
+    headers: MapObject,
+    staleWhileRevalidate: number,
+    vary: { [key: string]: string }
+};
+
+/**
+ * Options for the HTTP cache. "staleWhileRevalidate" enables returning stale
+ * responses while revalidating them in the background as defined by the
+ * server or for the given number of seconds otherwise.
+ *
+ * @since v1.2.0
+ */
+export type HttpCacheOptions = {
+    staleWhileRevalidate?: boolean | number,
+    storage?: HttpCacheStorage
+};
+
+/**
+ * Storage for HTTP cache entries, e.g. in memory, IndexedDB or a file.
+ *
+ * @since v1.2.0
+ */
+export type HttpCacheStorage = {
+    clear: () => Promise<void> | void,
+    delete: (key: string) => Promise<void> | void,
+    get: (key: string) => HttpCacheEntry | Promise<HttpCacheEntry>,
+    set: (key: string, entry: HttpCacheEntry) => Promise<void> | void
+};
+
+/**
+ * State change of a circuit breaker. "host" is given as
+ * "scheme://host:port".
+ *
+ * @since v1.2.0
+ */
+export type HttpCircuitBreakerEvent = {
+    failures: number,
+    host: string,
+    previousState: HttpCircuitBreakerState,
+    requests: number,
+    state: HttpCircuitBreakerState
+};
+
+/**
+ * Listener called for state changes of a circuit breaker
+ *
+ * @since v1.2.0
+ */
+export type HttpCircuitBreakerListener = (event: HttpCircuitBreakerEvent) => void;
+
+/**
+ * Circuit breaker options. The circuit of a host opens once
+ * "failureThreshold" requests or the "failureRatio" of at least
+ * "minimumRequests" requests failed within the last "windowSize"
+ * milliseconds. After "coolDown" milliseconds up to "halfOpenRequests" trial
+ * requests are sent and the circuit closes after "successThreshold" of them
+ * succeeded. Network errors, timeouts and 5xx responses are failures unless
+ * "isFailure" decides otherwise.
+ *
+ * @since v1.2.0
+ */
+export type HttpCircuitBreakerOptions = {
+    coolDown?: number,
+    failureRatio?: number,
+    failureThreshold?: number,
+    halfOpenRequests?: number,
+    isFailure?: (response?: Response, error?: Error) => boolean,
+    minimumRequests?: number,
+    onStateChange?: HttpCircuitBreakerListener,
+    successThreshold?: number,
+    windowSize?: number
+};
+
+/**
+ * State of a circuit breaker for a host
+ *
+ * @since v1.2.0
+ */
+export type HttpCircuitBreakerState = 'closed' | 'half-open' | 'open';
+
+/**
+ * Provider for the "Authorization" header of requests. "refresh()" is called
+ * once for a request answered with 401 and the request is replayed if it
+ * returns true.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientAuthProvider = {
+    getAuthorization: (context: HttpClientMiddlewareContext) => Promise<string> | string,
+    refresh?: (context: HttpClientMiddlewareContext, response: HttpClientResponse) => Promise<boolean> | boolean
+};
+
+/**
+ * Runtime environment specific values. "baseUrl" is used to resolve relative
+ * URLs.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientEnvironment = {
+    baseUrl?: string,
+    charset?: string,
+    timers?: HttpClientTimers
+};
+
+/**
+ * Metrics reported for each request. Durations are given in milliseconds:
+ * "queue" until the transport has been called, "headers" until the response
+ * headers have been received and "body" until the body has been read or the
+ * request completed. Durations of the last attempt are reported if retried.
+ * "error" contains the class name of the error the request failed with.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientMetrics = {
+    bytesReceived: number,
+    bytesSent?: number,
+    durations: { body?: number, headers?: number, queue?: number, total: number },
+    error?: string,
+    method: string,
+    retries: number,
+    status?: number,
+    traceparent?: string,
+    url: string,
+    urlTemplate?: string
+};
+
+/**
+ * Callback receiving the metrics of each request
+ *
+ * @since v1.2.0
+ */
+export type HttpClientMetricsCallback = (metrics: HttpClientMetrics) => void;
+
+/**
+ * Measurements of a request in progress. Timestamps are given in
+ * milliseconds.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientMetricsState = {
+    attempts: number,
+    bodyRead?: number,
+    bytesReceived: number,
+    bytesSent?: number,
+    headersReceived?: number,
+    requestSent?: number,
+    started: number,
+    transportCalled?: number,
+    url?: string
+};
+
+/**
+ * Middleware called for each request sent. Middlewares may rewrite the
+ * context before calling "next()", transform the response returned or
+ * return a synthetic response without calling "next()" at all.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientMiddleware = (
+    context: HttpClientMiddlewareContext,
+    next: HttpClientMiddlewareNext
+) => Promise<HttpClientResponse>;
+
+/**
+ * Context of a request passed through the middleware chain
+ *
+ * @since v1.2.0
+ */
+export type HttpClientMiddlewareContext = {
+    method: string,
+    request: Request,
+    requestArgs: HttpClientRequestArgs,
+    requestInit: RequestInit
+};
+
+/**
+ * Callback to continue with the next middleware of the chain
+ *
+ * @since v1.2.0
+ */
+export type HttpClientMiddlewareNext = () => Promise<HttpClientResponse>;
+
+/**
+ * Mirror policy for HTTP client requests. "mirrors" are base URLs tried in
+ * the given order after the client URL. Requests with one of the "methods"
+ * fail over to the next mirror on network errors, timeouts and the
+ * "failoverOnStatus" codes. Mirrors failed are tried last for
+ * "unhealthyBackoff" milliseconds. Requests with one of the "hedgeMethods"
+ * are sent to the next mirror as well if no response has been received after
+ * "hedgeDelay" milliseconds.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientMirrorPolicy = {
+    failoverOnStatus?: number[],
+    hedgeDelay?: number,
+    hedgeMethods?: string[],
+    methods?: string[],
+    mirrors?: string[],
+    unhealthyBackoff?: number
+};
+
+/**
+ * File part of a multipart/form-data body created with
+ * "HttpMultipartBuilder.file()". "filename" defaults to the name of a "File"
+ * given or "blob".
+ *
+ * @since v1.2.0
+ */
+export type HttpClientMultipartFile = {
+    content: ArrayBuffer | ArrayBufferView | Blob | string,
+    contentType?: string,
+    filename?: string
+};
+
+/**
+ * Options for HTTP client instances
+ *
+ * @since v1.2.0
+ */
+export type HttpClientOptions = HttpClientTransferOptions & {
+    authProvider?: HttpClientAuthProvider,
+    cache?: HttpCache,
+    circuitBreaker?: HttpCircuitBreaker,
+    codecs?: HttpCodecRegistry,
+    cookieJar?: HttpCookieJar,
+    environment?: HttpClientEnvironment,
+    middlewares?: HttpClientMiddleware[],
+    mirrorPolicy?: HttpClientMirrorPolicy,
+    onMetrics?: HttpClientMetricsCallback,
+    queryEncoding?: HttpClientQueryEncoding,
+    redirectPolicy?: HttpClientRedirectPolicy,
+    retryPolicy?: HttpClientRetryPolicy,
+    scheduler?: HttpScheduler,
+    throwErrors?: boolean,
+    traceContext?: HttpClientTraceContextProvider,
+    transport?: HttpClientTransport
+};
+
+/**
+ * Encoding of query parameters and form-urlencoded bodies. Arrays are
+ * encoded as "a=1&a=2" (repeat), "a[]=1&a[]=2" (brackets), "a[0]=1&a[1]=2"
+ * (indices) or "a=1,2" (comma). Nested objects are always encoded as
+ * "a[b]=1". "null" and undefined values are either skipped or sent empty.
+ * A custom serializer replaces the built-in encoding completely.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientQueryEncoding = {
+    arrayFormat?: 'brackets' | 'comma' | 'indices' | 'repeat',
+    nullValues?: 'empty' | 'skip',
+    serializer?: (params: MapObject, separator: string) => string
+};
+
 /**
  * Query parameters supported for the HTTP client
  *
@@ -21,12 +291,49 @@
  */
 export type HttpClientQueryParams = MapObject | string;
 
+/**
+ * Redirect followed by the HTTP client. "method" is the method used to
+ * request the redirect target.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientRedirect = {
+    code: number,
+    from: string,
+    method: string,
+    to: string
+};
+
+/**
+ * Redirect policy for HTTP client requests. Redirects are followed by the
+ * client instead of "fetch()" if a policy or a cookie jar is set, so that
+ * cookies of each redirect response are stored. "onRedirect" is called for
+ * each redirect and it is not followed if false is returned. Browsers do not
+ * expose redirect responses: "GET", "HEAD" and "OPTIONS" requests are
+ * redirected by "fetch()" without applying the policy there and other
+ * requests fail with a "RedirectError".
+ *
+ * @since v1.2.0
+ */
+export type HttpClientRedirectPolicy = {
+    maxRedirects?: number,
+    onRedirect?: (redirect: HttpClientRedirect) => Promise<boolean> | boolean
+};
+
 /**
  * Request arguments for the HTTP client
  *
  * @since v1.1.0
  */
-export type HttpClientRequestArgs = { body?: BodyInit, headers?: Headers, params?: string, separator?: string };
+export type HttpClientRequestArgs = {
+    body?: BodyInit,
+    data?: HttpClientRequestData,
+    headers?: Headers,
+    metrics?: HttpClientMetricsState,
+    options?: HttpClientRequestOptions,
+    params?: string,
+    separator?: string
+};
 
 /**
  * Request data
@@ -36,15 +343,391 @@ export type HttpClientRequestArgs = { body?: BodyInit, headers?: Headers, params
 export type HttpClientRequestData = BodyInit | unknown;
 
 /**
- * Response for HTTP client requests
+ * Progress of an upload or download. "total" is undefined if unknown.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientProgress = { loaded: number, total?: number };
+
+/**
+ * Callback for upload and download progress events
+ *
+ * @since v1.2.0
+ */
+export type HttpClientProgressCallback = (progress: HttpClientProgress) => void;
+
+/**
+ * Per request options overriding instance defaults. Headers given are merged
+ * over the instance ones and "timeout" is given in seconds. "data", "params"
+ * and "separator" are only used if given to "request()" directly. "url" is
+ * resolved against the client URL and requested instead of it. It is
+ * expanded as an RFC 6570 URI template if "variables" are given. Requests
+ * with a higher "priority" are sent first if queued by a scheduler.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientRequestOptions<T = unknown> = HttpClientTransferOptions & {
+    cache?: RequestCache,
+    credentials?: RequestCredentials,
+    data?: HttpClientRequestData,
+    headers?: HeadersInit,
+    mirrorPolicy?: HttpClientMirrorPolicy,
+    mode?: RequestMode,
+    params?: HttpClientQueryParams,
+    priority?: number,
+    redirect?: RequestRedirect,
+    redirectPolicy?: HttpClientRedirectPolicy,
+    retryPolicy?: HttpClientRetryPolicy,
+    separator?: string,
+    signal?: AbortSignal,
+    throwErrors?: boolean,
+    timeout?: number,
+    url?: string,
+    validator?: HttpClientValidator<T>,
+    variables?: MapObject
+};
+
+/**
+ * Page received while paginating. "items" contains the items extracted from
+ * the body and "url" the URL requested without the query parameters given.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientPage<T = unknown> = {
+    items: unknown[],
+    request: HttpClientPageRequest,
+    response: HttpClientResponse<T>,
+    url: string
+};
+
+/**
+ * Request for a page. "url" is resolved against the client URL and requested
+ * instead of it.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientPageRequest = { params?: MapObject, url?: string };
+
+/**
+ * Dot separated path or callback to extract a value from a decoded body
+ *
+ * @since v1.2.0
+ */
+export type HttpClientPaginationExtractor = string | ((body: unknown) => unknown);
+
+/**
+ * Pagination options. Items are extracted with "items" or taken from bodies
+ * being an array. The next page is requested while the current one is
+ * consumed if "prefetch" is true.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientPaginationOptions<T = unknown> = HttpClientRequestOptions<T> & {
+    items?: HttpClientPaginationExtractor,
+    maxItems?: number,
+    maxPages?: number,
+    prefetch?: boolean
+};
+
+/**
+ * Pagination strategy returning the request for the page following the one
+ * given. "initial()" may add parameters to the ones of the first request.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientPaginationStrategy = {
+    initial?: (params: MapObject) => MapObject,
+    next: (page: HttpClientPage) => HttpClientPageRequest | Promise<HttpClientPageRequest | void> | void
+};
+
+/**
+ * Response for HTTP client requests. "body" contains the catched exception
+ * instead of the typed data on error unless errors are thrown. "problem"
+ * contains the Problem Details of error responses if received and
+ * "redirects" all redirects followed by the client.
  *
  * @since v1.1.0
  */
-export type HttpClientResponse = {
+export type HttpClientResponse<T = unknown> = {
     code: number,
     headers: MapObject,
-    body: unknown,
-    rawResponse?: Response
+    body: T,
+    problem?: ProblemDetails,
+    rawResponse?: Response,
+    redirects?: HttpClientRedirect[]
+};
+
+/**
+ * Error kinds a request may be retried for
+ *
+ * @since v1.2.0
+ */
+export type HttpClientRetryErrorKind = 'network' | 'timeout';
+
+/**
+ * Retry policy for HTTP client requests. Delays are given in milliseconds.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientRetryPolicy = {
+    baseDelay?: number,
+    jitter?: number,
+    maxAttempts?: number,
+    maxDelay?: number,
+    maxRetryAfter?: number,
+    respectRetryAfter?: boolean,
+    retryMethods?: string[],
+    retryOnErrors?: HttpClientRetryErrorKind[],
+    retryOnStatus?: number[]
+};
+
+/**
+ * Timer source used for timeouts and delays
+ *
+ * @since v1.2.0
+ */
+export type HttpClientTimers = {
+    clearTimeout: (id: unknown) => void,
+    setTimeout: (callback: () => void, delay: number) => unknown
+};
+
+/**
+ * W3C Trace Context of the active span the requests sent belong to.
+ * "traceFlags" defaults to 0 and "traceState" may be given as a string or an
+ * object to be serialized, e.g. the OpenTelemetry span context.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientTraceContext = {
+    spanId: string,
+    traceFlags?: number,
+    traceId: string,
+    traceState?: string | { serialize: () => string }
+};
+
+/**
+ * Provider returning the trace context of the active span if any
+ *
+ * @since v1.2.0
+ */
+export type HttpClientTraceContextProvider = () => HttpClientTraceContext | undefined;
+
+/**
+ * Options for transferring request and response bodies. "maxResponseSize" is
+ * given in bytes. Successful response bodies are returned as an async
+ * iterable of chunks if "stream" is true.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientTransferOptions = {
+    maxResponseSize?: number,
+    onDownloadProgress?: HttpClientProgressCallback,
+    onUploadProgress?: HttpClientProgressCallback,
+    stream?: boolean
+};
+
+/**
+ * Transport sending requests in the same way as "fetch()"
+ *
+ * @since v1.2.0
+ */
+export type HttpClientTransport = (request: Request, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Validator for decoded response bodies given as a type guard or a function
+ * returning "false", an error message or a list of error messages if invalid.
+ * Exceptions thrown are reported as validation errors as well.
+ *
+ * @since v1.2.0
+ */
+export type HttpClientValidator<T = unknown> = (
+    ((body: unknown) => body is T)
+    | ((body: unknown) => boolean | string | string[] | void)
+);
+
+/**
+ * Codec serialising request bodies and parsing response bodies of a media
+ * type. The content type given contains all parameters, e.g. the charset.
+ *
+ * @since v1.2.0
+ */
+export type HttpCodec = {
+    decode: (response: Response, contentType: string) => Promise<unknown> | unknown,
+    encode: (data: unknown, contentType: string) => BodyInit
+};
+
+/**
+ * Cookie stored in a cookie jar. Timestamps are given in milliseconds and
+ * "expires" is undefined for session cookies. "hostOnly" cookies are only
+ * sent to the host that set them.
+ *
+ * @since v1.2.0
+ */
+export type HttpCookie = {
+    creation: number,
+    domain: string,
+    expires?: number,
+    hostOnly: boolean,
+    httpOnly: boolean,
+    name: string,
+    path: string,
+    sameSite?: 'lax' | 'none' | 'strict',
+    secure: boolean,
+    value: string
+};
+
+/**
+ * Digest authentication challenge received with "WWW-Authenticate"
+ *
+ * @since v1.2.0
+ */
+export type HttpDigestAuthChallenge = {
+    algorithm: string,
+    nonce: string,
+    opaque?: string,
+    qop?: string,
+    realm: string,
+    stale: boolean,
+    userhash: boolean
+};
+
+/**
+ * Event received by the event source. "type" is "message" unless the event
+ * is named.
+ *
+ * @since v1.2.0
+ */
+export type HttpEventSourceEvent = {
+    data: string,
+    id: string,
+    type: string
+};
+
+/**
+ * Listener for events of the event source
+ *
+ * @since v1.2.0
+ */
+export type HttpEventSourceListener = (event: HttpEventSourceEvent) => void;
+
+/**
+ * Event source options. "retryDelay" is given in milliseconds and replaced
+ * by the one sent by the server. "onError()" is called for errors the event
+ * source reconnects after.
+ *
+ * @since v1.2.0
+ */
+export type HttpEventSourceOptions = {
+    headers?: HeadersInit,
+    lastEventId?: string,
+    onError?: (error: Error) => void,
+    onOpen?: (response: HttpClientResponse) => void,
+    params?: MapObject,
+    reconnect?: boolean,
+    retryDelay?: number,
+    signal?: AbortSignal
+};
+
+/**
+ * Connection state of the event source
+ *
+ * @since v1.2.0
+ */
+export type HttpEventSourceState = 'closed' | 'connecting' | 'open';
+
+/**
+ * Request received by the mock transport
+ *
+ * @since v1.2.0
+ */
+export type HttpMockTransportCall = {
+    body?: BodyInit,
+    headers: Headers,
+    method: string,
+    path: string,
+    query: { [key: string]: string },
+    url: string
+};
+
+/**
+ * Criteria a mock transport route matches requests against. Header names are
+ * case-insensitive.
+ *
+ * @since v1.2.0
+ */
+export type HttpMockTransportMatcher = {
+    headers?: { [key: string]: RegExp | string },
+    method?: string,
+    path?: RegExp | string,
+    query?: { [key: string]: RegExp | string }
+};
+
+/**
+ * Canned response of the mock transport. Objects given as "body" are
+ * JSON-encoded. The request fails with "error" if set.
+ *
+ * @since v1.2.0
+ */
+export type HttpMockTransportResponse = {
+    body?: unknown,
+    delay?: number,
+    error?: Error,
+    headers?: { [key: string]: string },
+    status?: number,
+    statusText?: string
+};
+
+/**
+ * Canned response or callback generating it for a mock transport route
+ *
+ * @since v1.2.0
+ */
+export type HttpMockTransportResponder = HttpMockTransportResponse | (
+    (call: HttpMockTransportCall) => HttpMockTransportResponse | Promise<HttpMockTransportResponse>
+);
+
+/**
+ * Options for the OAuth2 auth provider. Client credentials are sent using
+ * HTTP Basic authentication unless "clientAuthentication" is "body".
+ * "expiryMargin" is given in seconds and limited to half of the token
+ * lifetime.
+ *
+ * @since v1.2.0
+ */
+export type HttpOAuth2AuthProviderOptions = {
+    clientAuthentication?: 'basic' | 'body',
+    clientId: string,
+    clientSecret?: string,
+    expiryMargin?: number,
+    grantType: 'client_credentials' | 'refresh_token',
+    refreshToken?: string,
+    scope?: string,
+    timeout?: number,
+    tokenUrl: string,
+    transport?: HttpClientTransport
+};
+
+/**
+ * Scheduler options. Requests are limited per host to
+ * "maxConcurrentPerHost" requests awaiting their response and to the token
+ * bucket "rateLimit" allowing "burst" requests at once.
+ *
+ * @since v1.2.0
+ */
+export type HttpSchedulerOptions = {
+    deduplicate?: boolean,
+    maxConcurrentPerHost?: number,
+    rateLimit?: HttpSchedulerRateLimit
+};
+
+/**
+ * Token bucket rate limit of the scheduler
+ *
+ * @since v1.2.0
+ */
+export type HttpSchedulerRateLimit = {
+    burst?: number,
+    requestsPerSecond: number
 };
 
 /**
@@ -53,3 +736,17 @@ export type HttpClientResponse = {
  * @since v1.0.0
  */
 export type MapObject = { [key: string]: unknown };
+
+/**
+ * RFC 9457 Problem Details of an error response. "type" defaults to
+ * "about:blank" and extension members are kept as received.
+ *
+ * @since v1.2.0
+ */
+export type ProblemDetails = MapObject & {
+    detail?: string,
+    instance?: string,
+    status?: number,
+    title?: string,
+    type: string
+};
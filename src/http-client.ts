@@ -14,9 +14,69 @@
  * @license Mozilla Public License, v. 2.0
  */
 
-import { HttpClientQueryParams, HttpClientRequestArgs, HttpClientRequestData, HttpClientResponse, MapObject } from './http-client-interfaces';
+import {
+    AbortError,
+    CircuitOpenError,
+    HttpClientError,
+    HttpStatusError,
+    NetworkError,
+    RedirectError,
+    ResponseTooLargeError,
+    TimeoutError
+} from './http-client-errors';
+import {
+    HttpClientAuthProvider,
+    HttpClientEnvironment,
+    HttpClientMetricsCallback,
+    HttpClientMetricsState,
+    HttpClientMiddleware,
+    HttpClientMiddlewareContext,
+    HttpClientMiddlewareNext,
+    HttpClientMirrorPolicy,
+    HttpClientOptions,
+    HttpClientPage,
+    HttpClientPageRequest,
+    HttpClientPaginationOptions,
+    HttpClientPaginationStrategy,
+    HttpClientProgressCallback,
+    HttpClientQueryEncoding,
+    HttpClientQueryParams,
+    HttpClientRedirect,
+    HttpClientRedirectPolicy,
+    HttpClientRequestArgs,
+    HttpClientRequestData,
+    HttpClientRequestOptions,
+    HttpClientResponse,
+    HttpClientRetryErrorKind,
+    HttpClientRetryPolicy,
+    HttpClientTraceContextProvider,
+    HttpClientTransferOptions,
+    HttpClientTransport,
+    MapObject
+} from './http-client-interfaces';
+
+import { parse as uriParse, resolve as uriResolve } from 'uri-js';
+
+import { HttpCache } from './http-cache';
+import { HttpCircuitBreaker } from './http-circuit-breaker';
+import { HttpCodecRegistry } from './http-codec-registry';
+import { HttpCookieJar } from './http-cookie-jar';
+import { HttpDigestAuth } from './http-digest-auth';
+import { HttpFormCodec } from './http-form-codec';
+import { HttpMultipartBuilder } from './http-multipart-builder';
+import { HttpPagination } from './http-pagination';
+import { HttpQuerySerializer } from './http-query-serializer';
+import { HttpScheduler } from './http-scheduler';
+import { HttpUriTemplate } from './http-uri-template';
 
-import { parse as uriParse } from 'uri-js';
+/**
+ * Request URL for a mirror. "baseUrl" is undefined if the URL requested is
+ * not below any base URL of the mirror policy.
+ */
+type HttpClientMirrorCandidate = {
+    baseUrl: string,
+    url: string
+};
 
 /**
  * Minimal HTTP client abstraction layer returning raw responses.
@@ -33,6 +93,45 @@ export class HttpClient {
      * List of supported schemes.
      */
     protected static readonly COMPATIBLE_SCHEMES = [ 'http', 'https' ];
+    /**
+     * Default encoding of query parameters and form-urlencoded bodies
+     */
+    public static readonly DEFAULT_QUERY_ENCODING: HttpClientQueryEncoding = HttpQuerySerializer.DEFAULT_ENCODING;
+    /**
+     * Default mirror policy applied if a mirror policy is set
+     */
+    public static readonly DEFAULT_MIRROR_POLICY: HttpClientMirrorPolicy = {
+        failoverOnStatus: [ 502, 503, 504 ],
+        hedgeMethods: [ 'GET', 'HEAD', 'OPTIONS' ],
+        methods: [ 'DELETE', 'GET', 'HEAD', 'OPTIONS', 'PUT', 'TRACE' ],
+        unhealthyBackoff: 30000
+    };
+    /**
+     * Default redirect policy applied if a redirect policy is set
+     */
+    public static readonly DEFAULT_REDIRECT_POLICY: HttpClientRedirectPolicy = {
+        maxRedirects: 20
+    };
+    /**
+     * Default retry policy. Requests are not retried unless "maxAttempts" is
+     * increased.
+     */
+    public static readonly DEFAULT_RETRY_POLICY: HttpClientRetryPolicy = {
+        baseDelay: 500,
+        jitter: 0.5,
+        maxAttempts: 1,
+        maxDelay: 30000,
+        maxRetryAfter: 60000,
+        respectRetryAfter: true,
+        retryMethods: [ 'DELETE', 'GET', 'HEAD', 'OPTIONS', 'PUT', 'TRACE' ],
+        retryOnErrors: [ 'network', 'timeout' ],
+        retryOnStatus: [ 408, 429, 500, 502, 503, 504 ]
+    };
+
+    /**
+     * Environment values set for all instances
+     */
+    protected static defaultEnvironment: HttpClientEnvironment = { };
 
     /**
      * Request authorization username
@@ -42,6 +141,53 @@ export class HttpClient {
      * Request authorization password
      */
     protected authPassword: string;
+    /**
+     * True to send the credentials set as Basic authentication until a Digest
+     * challenge has been received
+     */
+    protected basicAuthPreemptive = true;
+    /**
+     * Auth provider setting the "Authorization" header of requests
+     */
+    protected authProvider: HttpClientAuthProvider;
+    /**
+     * HTTP response cache used
+     */
+    protected cache: HttpCache;
+    /**
+     * Circuit breaker failing requests fast while a host is degraded
+     */
+    protected circuitBreaker: HttpCircuitBreaker;
+    /**
+     * Codec registry used to encode request data and decode responses
+     */
+    protected codecs: HttpCodecRegistry;
+    /**
+     * Cookie jar storing cookies received and sending them with requests
+     */
+    protected cookieJar: HttpCookieJar;
+    /**
+     * Digest authentication state by origin after a challenge has been
+     * received
+     */
+    protected digestAuths = new Map<string, HttpDigestAuth>();
+    /**
+     * Environment values set for this instance
+     */
+    protected _environment: HttpClientEnvironment;
+    /**
+     * Middlewares called in the order registered for each request
+     */
+    protected middlewares: HttpClientMiddleware[];
+    /**
+     * Mirror policy applied to requests; undefined if only the client URL is
+     * requested
+     */
+    protected mirrorPolicy: HttpClientMirrorPolicy;
+    /**
+     * Callback receiving the metrics of each request
+     */
+    protected onMetrics: HttpClientMetricsCallback;
     /**
      * fetch Request instance
      */
@@ -59,17 +205,60 @@ export class HttpClient {
      */
     public port: number;
     /**
-     * True if the client returns a callable reader supporting a size argument.
+     * Serializer of query parameters and form-urlencoded bodies
+     */
+    protected querySerializer: HttpQuerySerializer;
+    /**
+     * True if the client returns the raw response instead of reading it.
      */
     protected returnRawResponse: boolean;
+    /**
+     * True if the runtime hides redirect responses from "fetch()" as
+     * browsers do
+     */
+    protected redirectsOpaque = false;
+    /**
+     * Redirect policy applied to requests; undefined if redirects are
+     * followed by "fetch()"
+     */
+    protected redirectPolicy: HttpClientRedirectPolicy;
+    /**
+     * Retry policy applied to requests
+     */
+    protected retryPolicy: HttpClientRetryPolicy;
+    /**
+     * Scheduler limiting the requests sent
+     */
+    protected scheduler: HttpScheduler;
     /**
      * Request scheme
      */
     public scheme: string;
+    /**
+     * True if requests reject with errors instead of resolving with them
+     */
+    protected throwErrors: boolean;
     /**
      * Socket timeout in milliseconds
      */
     protected timeout: number;
+    /**
+     * Provider of the trace context propagated with requests
+     */
+    protected traceContextProvider: HttpClientTraceContextProvider;
+    /**
+     * Time in milliseconds until mirrors failed are requested in order again
+     * by base URL
+     */
+    protected unhealthyMirrors = new Map<string, number>();
+    /**
+     * Options for transferring request and response bodies
+     */
+    protected transferOptions: HttpClientTransferOptions;
+    /**
+     * Transport used to send requests
+     */
+    protected transport: HttpClientTransport;
 
     /**
      * Constructor (HttpClient)
@@ -78,16 +267,57 @@ export class HttpClient {
      * @param timeout Socket timeout
      * @param returnRawResponse Returns the raw response instead of reading the
      *        response if true.
+     * @param options HTTP client options
      *
      * @since v1.0.0
      */
-    constructor(url: string, timeout = 30, returnRawResponse = false) {
+    constructor(url: string, timeout = 30, returnRawResponse = false, options: HttpClientOptions = { }) {
+        this.authProvider = options.authProvider;
+        this.cache = options.cache;
+        this.circuitBreaker = options.circuitBreaker;
+        this.codecs = options.codecs;
+        this.cookieJar = options.cookieJar;
+        this._environment = (options.environment ? options.environment : { });
+        this.onMetrics = options.onMetrics;
         this.returnRawResponse = returnRawResponse;
+        this.scheduler = options.scheduler;
+        this.throwErrors = (options.throwErrors === true);
         this.timeout = (timeout * 1000);
+        this.traceContextProvider = options.traceContext;
+
+        this.transferOptions = {
+            maxResponseSize: options.maxResponseSize,
+            onDownloadProgress: options.onDownloadProgress,
+            onUploadProgress: options.onUploadProgress,
+            stream: options.stream
+        };
 
+        this.transport = (options.transport ? options.transport : (request, init) => fetch(request, init));
+
+        this.middlewares = (options.middlewares ? options.middlewares.slice() : [ ]);
+
+        this.setMirrorPolicy(options.mirrorPolicy);
+        this.setQueryEncoding(options.queryEncoding);
+        this.setRedirectPolicy(options.redirectPolicy);
+        this.setRetryPolicy(options.retryPolicy);
         this.configure(url);
     }
 
+    /**
+     * Returns the environment values detected, set for all instances and set
+     * for this instance in this order of precedence.
+     *
+     * @return Environment values
+     * @since  v1.2.0
+     */
+    public get environment() {
+        return {
+            ...HttpClient.detectEnvironment(),
+            ...HttpClient.defaultEnvironment,
+            ...this._environment
+        } as HttpClientEnvironment;
+    }
+
     /**
      * Returns the corresponding class of the calling instance.
      *
@@ -125,7 +355,6 @@ export class HttpClient {
      *
      * @param params Query parameters object
      * @param separator Query parameter separator
-     * @param _ True if parameters are sent as body payload
      *
      * @return Formatted query string
      * @since  v1.0.0
@@ -134,28 +363,40 @@ export class HttpClient {
         let _return;
 
         if (params && typeof params != 'string') {
-            const paramsList = [ ];
-
-            for (const key of Object.keys(params)) {
-                if (typeof params[key] != 'boolean') {
-                    paramsList.push(
-                        HttpClient.encode(key)
-                        + '='
-                        + HttpClient.encode(typeof params[key] == 'object' ? params[key].toString() : params[key] as string)
-                    );
-                } else if (params[key]) {
-                    paramsList.push(HttpClient.encode(key) + '=1');
-                } else {
-                    paramsList.push(HttpClient.encode(key) + '=0');
-                }
-            }
-
-            _return = paramsList.join(separator);
+            _return = this.querySerializer.serialize(params, separator);
         }
 
         return _return;
     }
 
+    /**
+     * Appends the given query string to the URL. Query parameters already
+     * contained in the URL and its fragment are preserved.
+     *
+     * @param url URL to be called
+     * @param params Query string
+     * @param separator Query parameter separator
+     *
+     * @return URL with query string
+     * @since  v1.2.0
+     */
+    protected buildRequestUrl(url: string, params: string, separator = ';') {
+        const urlData = /^([^?#]*)(\?[^#]*)?(#.*)?$/.exec(url);
+        let query = (urlData[2] ? urlData[2] : '');
+
+        if (params.charAt(0) === '?') {
+            params = params.slice(1);
+        }
+
+        if (query === '') {
+            query = '?';
+        } else if (query !== '?' && query.slice(-separator.length) !== separator) {
+            query += separator;
+        }
+
+        return urlData[1] + query + params + (urlData[3] ? urlData[3] : '');
+    }
+
     /**
      * Configures the HTTP request for later use.
      *
@@ -164,8 +405,20 @@ export class HttpClient {
      * @since v1.0.0
      */
     protected configure(url: string) {
-        const urlData = uriParse(url);
-        const scheme = (urlData.scheme ? urlData.scheme : document.location.protocol.slice(0, -1)).toLowerCase();
+        let urlData = uriParse(url);
+
+        if (!urlData.scheme) {
+            const baseUrl = this.environment.baseUrl;
+
+            if (!baseUrl) {
+                throw new Error('Relative URL given without a base URL configured for the environment');
+            }
+
+            url = uriResolve(baseUrl, url);
+            urlData = uriParse(url);
+        }
+
+        const scheme = (urlData.scheme ? urlData.scheme.toLowerCase() : '');
 
         // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
         if ((!scheme) || (!this.instanceClass.COMPATIBLE_SCHEMES.includes(scheme))) {
@@ -174,6 +427,8 @@ export class HttpClient {
 
         this.scheme = scheme;
 
+        this.digestAuths.clear();
+
         if (urlData.userinfo) {
             const authData = urlData.userinfo.split(':', 2);
 
@@ -182,22 +437,13 @@ export class HttpClient {
         }
 
         this.path = (urlData.path ? urlData.path : '/');
+        this.host = urlData.host;
+        this.port = (typeof urlData.port == 'number' ? urlData.port : undefined);
 
-        if (urlData.host) {
-            this.host = urlData.host;
-
-            if (typeof urlData.port == 'number') {
-                this.port = urlData.port;
-            }
-        } else {
-            this.host = document.location.host;
-
-            if (document.location.port !== '') {
-                this.port = parseInt(document.location.port, 10);
-            }
-        }
-
-        this._requestInstance = this.configureFromUrl(url);
+        // Credentials are sent in the "Authorization" header only
+        this._requestInstance = this.configureFromUrl(
+            urlData.userinfo === undefined ? url : url.replace(/^([^:/?#]+:\/\/)[^/?#@]*@/, '$1')
+        );
     }
 
     /**
@@ -230,350 +476,2312 @@ export class HttpClient {
         return new Request(url, { cache, credentials, headers, mode: 'cors', redirect });
     }
 
+    /**
+     * Decodes the body of an error response. The codec registered for the
+     * content type is used if any. JSON and text bodies are decoded as such
+     * and kept as text if invalid to be available for diagnostics.
+     *
+     * @param response Error response received
+     *
+     * @return Decoded body
+     * @since  v1.2.0
+     */
+    protected async decodeErrorBody(response: Response) {
+        const contentType = response.headers.get('content-type');
+        const codec = (this.codecs ? this.codecs.getCodec(contentType) : undefined);
+
+        if (codec) {
+            try {
+                return await codec.decode(response.clone(), contentType);
+            } catch (handledException) {
+                // The body is returned as received below
+            }
+        }
+
+        let _return: unknown;
+
+        if (HttpClient.isJsonContentType(contentType)) {
+            _return = await response.text();
+
+            try {
+                _return = ((_return as string).trim() ? JSON.parse(_return as string) : null);
+            } catch (handledException) {
+                // Invalid JSON is kept as text
+            }
+        } else if ((/^text\//i).test(contentType ? contentType.trim() : '')) {
+            _return = await response.text();
+        } else {
+            _return = await response.blob();
+        }
+
+        return _return;
+    }
+
+    /**
+     * Encodes the request data given as the HTTP body to be sent. Data is
+     * form-urlencoded with the query encoding set unless a codec other than
+     * the built-in form codec is registered for the content type given.
+     *
+     * @param data HTTP body
+     * @param headers Request headers
+     *
+     * @return HTTP body
+     * @since  v1.2.0
+     */
+    protected encodeRequestData(data: HttpClientRequestData, headers: Headers) {
+        let _return: BodyInit;
+
+        if (typeof FormData != 'undefined' && data instanceof FormData) {
+            const contentType = headers.get('content-type');
+
+            // fetch() generates the header including the boundary required
+            if (contentType && (!(/boundary=/i).test(contentType))) {
+                headers.delete('content-type');
+            }
+
+            _return = data;
+        } else if (HttpClient.isRawRequestData(data)) {
+            _return = data as BodyInit;
+        } else if (data instanceof Object) {
+            const contentType = headers.get('content-type');
+            const encoder = ((this.codecs && contentType) ? this.codecs.getEncoder(contentType) : undefined);
+
+            if (HttpMultipartBuilder.containsFiles(data)) {
+                _return = this.encodeRequestData(HttpMultipartBuilder.build(data as MapObject), headers);
+            } else if (encoder && (!(encoder.codec instanceof HttpFormCodec))) {
+                if (!headers.has('content-type')) {
+                    headers.set('content-type', encoder.mediaType);
+                }
+
+                _return = encoder.codec.encode(data, headers.get('content-type'));
+            } else {
+                if (!headers.has('content-type')) {
+                    headers.set('Content-Type', 'application/x-www-form-urlencoded');
+                }
+
+                _return = this.buildRequestParameters(data as HttpClientQueryParams, '&');
+            }
+        }
+
+        return _return;
+    }
+
+    /**
+     * Sends the request described by the middleware context given. This is
+     * the final step of the middleware chain.
+     *
+     * @param context Middleware context
+     *
+     * @return Response data
+     * @since  v1.2.0
+     */
+    protected async fetchResponse(context: HttpClientMiddlewareContext) {
+        const requestArgs = context.requestArgs;
+        const requestInit = context.requestInit;
+
+        if (requestInit.body === undefined && requestArgs.data !== undefined && requestArgs.data !== null) {
+            requestInit.body = this.encodeRequestData(requestArgs.data, requestInit.headers as Headers);
+        }
+
+        if (requestInit.body) {
+            requestArgs.body = requestInit.body;
+        } else {
+            delete(requestInit.body);
+        }
+
+        const options = (requestArgs.options ? requestArgs.options : { });
+        const timeout = (options.timeout === undefined ? this.timeout : (options.timeout * 1000));
+        const transferOptions = this.getTransferOptions(requestArgs);
+
+        const onUploaded = (
+            (transferOptions.onUploadProgress && requestInit.body)
+            ? this.monitorUpload(requestInit, transferOptions.onUploadProgress)
+            : undefined
+        );
+
+        if (typeof ReadableStream != 'undefined' && requestInit.body instanceof ReadableStream) {
+            // Streamed request bodies are required to be sent half-duplex
+            (requestInit as RequestInit & { duplex: string }).duplex = 'half';
+        }
+
+        let response: Response;
+
+        const mirrorPolicy = this.getMirrorPolicy(options);
+        const priority = (options.priority === undefined ? 0 : options.priority);
+        const redirectPolicy = this.getRedirectPolicy(options);
+        const redirects = [ ] as HttpClientRedirect[];
+
+        let request = context.request;
+        let init = requestInit;
+        let redirect: { init: RequestInit, request: Request };
+
+        if (redirectPolicy) {
+            init = { ...init, redirect: 'manual' };
+        }
+
+        const metrics = requestArgs.metrics;
+
+        if (metrics) {
+            metrics.bodyRead = undefined;
+            metrics.bytesReceived = 0;
+            metrics.bytesSent = HttpClient.getBodySize(requestInit.body);
+        }
+
+        do {
+            if (metrics) {
+                metrics.headersReceived = undefined;
+                metrics.requestSent = Date.now();
+                metrics.transportCalled = undefined;
+                metrics.url = request.url;
+            }
+
+            if (mirrorPolicy) {
+                const mirrorResult = await this.sendToMirrors(request, init, timeout, priority, metrics, mirrorPolicy);
+
+                request = mirrorResult.request;
+                response = mirrorResult.response;
+            } else {
+                response = await this.sendAttempt(request, init, timeout, priority, metrics);
+            }
+
+            if (metrics) {
+                metrics.headersReceived = Date.now();
+                metrics.url = request.url;
+            }
+
+            redirect = (
+                redirectPolicy
+                ? await this.prepareRedirect(request, init, response, redirectPolicy, redirects)
+                : undefined
+            );
+
+            if (redirect) {
+                request = redirect.request;
+                init = redirect.init;
+            }
+        } while (redirect);
+
+        if (onUploaded) {
+            onUploaded();
+        }
+
+        response = this.monitorResponse(response, transferOptions, metrics);
+
+        const _return = await this.newResponse(context.method, requestArgs, response);
+
+        if (redirects.length > 0) {
+            _return.redirects = redirects;
+        }
+
+        return _return;
+    }
+
     /**
      * Sends the request and returns either the response or an timeout error.
+     * An abort signal given is combined with the one used for the timeout.
      *
      * @param request HTTP request to be send
      * @param additionalRequestArgs Additional request arguments to be applied
+     * @param timeout Timeout in milliseconds
+     * @param priority Priority of the request if queued by a scheduler
+     * @param metrics Measurements of the request if metrics are reported
      *
      * @return Response promise
      * @since  v1.0.1
      */
-    protected fetchWithTimeout(request: Request, additionalRequestArgs: RequestInit) {
+    protected fetchWithTimeout(
+        request: Request,
+        additionalRequestArgs: RequestInit,
+        timeout = this.timeout,
+        priority = 0,
+        metrics?: HttpClientMetricsState
+    ) {
         return new Promise(
             (resolve: (value: Response) => void, reject: (reason: Error) => void) => {
-                let timeoutId: number;
+                const timeoutError = new TimeoutError(timeout);
+                const timers = this.environment.timers;
+                let releaseSignal: () => void;
+                let timeoutId: unknown;
 
                 if (typeof AbortController == 'undefined') {
-                    timeoutId = self.setTimeout(
-                        () => { reject(new Error('Timeout occurred')); },
-                        this.timeout
+                    timeoutId = timers.setTimeout(
+                        () => { reject(timeoutError); },
+                        timeout
                     );
                 } else {
                     const abortController = new AbortController();
+                    const signal = additionalRequestArgs.signal;
+
+                    if (signal) {
+                        if (signal.aborted) {
+                            abortController.abort();
+                        } else {
+                            const onAbort = () => { abortController.abort(); };
+
+                            // The listener is removed once the response body has been read
+                            signal.addEventListener('abort', onAbort);
+                            releaseSignal = () => { signal.removeEventListener('abort', onAbort); };
+                        }
+                    }
+
                     additionalRequestArgs['signal'] = abortController.signal;
 
-                    timeoutId = self.setTimeout(
-                        () => { abortController.abort(); },
-                        this.timeout
+                    timeoutId = timers.setTimeout(
+                        () => {
+                            reject(timeoutError);
+                            abortController.abort();
+                        },
+                        timeout
                     );
                 }
 
-                fetch(request, additionalRequestArgs)
+                this.sendRequest(request, additionalRequestArgs, priority, metrics)
                 .then(
                     (response: Response) => {
-                        self.clearTimeout(timeoutId);
-                        resolve(response);
+                        timers.clearTimeout(timeoutId);
+                        resolve(releaseSignal ? this.releaseWithBody(response, releaseSignal) : response);
                     }
                 )
-                .catch(reject);
+                .catch(
+                    (reason: Error) => {
+                        timers.clearTimeout(timeoutId);
+
+                        if (releaseSignal) {
+                            releaseSignal();
+                        }
+
+                        reject(reason);
+                    }
+                );
             }
         );
     }
 
     /**
-     * Parses the response received and generates a structured response data object.
+     * Returns the middlewares to be called for each request in order. The
+     * Digest authentication, auth provider and cache middlewares are called
+     * after all middlewares registered.
      *
-     * @param method HTTP method
-     * @param _ Request arguments to be used
-     * @param response Response received
-     *
-     * @return Response data; 'body' may contain the catched Exception
-     * @since  v1.1.0
+     * @return List of middlewares
+     * @since  v1.2.0
      */
-    protected async newResponse(method: string, _: HttpClientRequestArgs, response: Response) {
-        const responseHeaders = { } as MapObject;
+    protected getMiddlewares() {
+        let _return = this.middlewares;
 
-        // Good old legacy code strikes here
-        if ('forEach' in response.headers) {
-            response.headers.forEach(
-                (value: string, name: string) => {
-                    responseHeaders[name.toLowerCase().replace(/-/g, '_')] = value;
-                }
+        if (this.authUsername) {
+            _return = _return.concat(
+                (context: HttpClientMiddlewareContext, next: HttpClientMiddlewareNext) => this.handleDigestAuthMiddleware(context, next)
             );
-        } else if ('entries' in response.headers) {
-            const headers = response.headers as Map<string, unknown>;
-
-            for (const header in headers.entries()) {
-                responseHeaders[header[0].toLowerCase().replace(/-/g, '_')] = header[1];
-            }
         }
 
-        // eslint-disable-next-line sort-keys
-        const _return: HttpClientResponse = { code: response.status, headers: responseHeaders, body: null };
-
-        if (this.returnRawResponse) {
-            _return['rawResponse'] = response;
+        if (this.authProvider) {
+            _return = _return.concat(
+                (context: HttpClientMiddlewareContext, next: HttpClientMiddlewareNext) => this.handleAuthMiddleware(context, next)
+            );
         }
 
-        if (!response.ok) {
-            _return.body = new Error(String(response.status) + response.statusText);
-        } else if (method !== 'HEAD' && (!this.returnRawResponse)) {
-            _return.body = await response.blob();
+        if (this.cache) {
+            _return = _return.concat(this.cache.middleware);
         }
 
         return _return;
     }
 
     /**
-     * Call a given request method on the configured HTTP server.
+     * Returns the URLs the given request URL may be sent to. Mirrors failed
+     * recently are returned last.
      *
-     * @param method HTTP method
-     * @param separator Query parameter separator
-     * @param params Parsed query parameters as str
-     * @param data HTTP body
+     * @param url Request URL
+     * @param mirrorPolicy Mirror policy to be applied
      *
-     * @return Response data; 'body' may contain the catched exception
-     * @since  v1.0.0
+     * @return Request URLs in the order to be tried
+     * @since  v1.2.0
      */
-    public async request(method: string, separator = ';', params?: HttpClientQueryParams, data?: HttpClientRequestData) {
-        let _return;
+    protected getMirrorCandidates(url: string, mirrorPolicy: HttpClientMirrorPolicy) {
+        const baseUrls = [ HttpClient.getMirrorBaseUrl(this.url) ];
 
-        try {
-            const headers = this._requestInstance.headers;
-            const requestArgs: HttpClientRequestArgs = { headers };
+        for (const mirror of mirrorPolicy.mirrors) {
+            const baseUrl = HttpClient.getMirrorBaseUrl(mirror);
 
-            if (typeof params == 'string') {
-                requestArgs['params'] = params;
-                requestArgs['separator'] = separator;
+            if (!baseUrls.includes(baseUrl)) {
+                baseUrls.push(baseUrl);
             }
+        }
 
-            if (
-                (typeof Blob != 'undefined' && data instanceof Blob)
-                || (typeof ArrayBuffer != 'undefined' && data instanceof ArrayBuffer)
-                || (typeof ReadableStream != 'undefined' && data instanceof ReadableStream)
-                || (typeof data == 'string')
-            ) {
-                requestArgs['body'] = data;
-            } else if (data instanceof Object) {
-                if (!headers.has('content-type')) {
-                    headers.set('Content-Type', 'application/x-www-form-urlencoded');
-                }
+        const matchingBaseUrl = baseUrls.find(
+            (baseUrl: string) => (
+                url.slice(0, baseUrl.length) === baseUrl && [ '', '/', '?', '#' ].includes(url.charAt(baseUrl.length))
+            )
+        );
 
-                requestArgs['body'] = this.buildRequestParameters(data as HttpClientQueryParams, '&');
-            }
+        if (matchingBaseUrl === undefined) {
+            return [ { baseUrl: undefined, url } ] as HttpClientMirrorCandidate[];
+        }
 
-            if (this.authUsername) {
-                headers.set('Authorization', 'Basic ' + btoa(this.authUsername + ':' + this.authPassword));
-            }
+        const healthyCandidates = [ ] as HttpClientMirrorCandidate[];
+        const now = Date.now();
+        const path = url.slice(matchingBaseUrl.length);
+        const unhealthyCandidates = [ ] as HttpClientMirrorCandidate[];
 
-            _return = await this._request(method, requestArgs);
-        } catch (handledException) {
-            // eslint-disable-next-line sort-keys, @typescript-eslint/no-unsafe-assignment
-            _return = { code: undefined, headers: undefined, body: handledException } as HttpClientResponse;
+        for (const baseUrl of baseUrls) {
+            const unhealthyUntil = this.unhealthyMirrors.get(baseUrl);
+
+            (
+                (unhealthyUntil !== undefined && unhealthyUntil > now)
+                ? unhealthyCandidates
+                : healthyCandidates
+            ).push({ baseUrl, url: baseUrl + path });
         }
 
-        return _return;
+        return healthyCandidates.concat(unhealthyCandidates);
     }
 
     /**
-     * Sends the request to the configured HTTP server and returns the result.
+     * Returns the mirror policy to be applied for the given request options.
      *
-     * @param method HTTP method
-     * @param requestArgs Request arguments to be used
+     * @param options Request options
      *
-     * @return Response data; 'body' may contain the catched Exception
-     * @since  v1.0.0
+     * @return Mirror policy; undefined if no mirrors are configured
+     * @since  v1.2.0
      */
-    protected async _request(method: string, requestArgs: HttpClientRequestArgs) {
-        let request;
-
-        if (requestArgs.params) {
-            let url = this.scheme + '://' + this.host + this.path;
-
-            if (!requestArgs.params.includes('?')) {
-                url += '?';
+    protected getMirrorPolicy(options: HttpClientRequestOptions) {
+        let _return: HttpClientMirrorPolicy;
+
+        if (this.mirrorPolicy || options.mirrorPolicy) {
+            const mirrorPolicy: HttpClientMirrorPolicy = {
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+                ...this.instanceClass.DEFAULT_MIRROR_POLICY as HttpClientMirrorPolicy,
+                ...this.mirrorPolicy,
+                ...options.mirrorPolicy
+            };
+
+            if (mirrorPolicy.mirrors && mirrorPolicy.mirrors.length > 0) {
+                _return = mirrorPolicy;
             }
-
-            url += requestArgs.params;
-
-            request = this.configureFromUrl(url);
-        } else {
-            request = this._requestInstance;
-        }
-
-        // eslint-disable-next-line sort-keys
-        const additionalRequestArgs = { method, headers: requestArgs.headers } as RequestInit;
-
-        if (requestArgs.body) {
-            additionalRequestArgs['body'] = requestArgs.body;
         }
 
-        const response = await (
-            (this.timeout > 0)
-            ? this.fetchWithTimeout(request, additionalRequestArgs)
-            : fetch(request, additionalRequestArgs)
-        );
-
-        return await this.newResponse(method, requestArgs, response);
+        return _return;
+    }
+
+    /**
+     * Returns the redirect policy for the given request options. The default
+     * redirect policy is applied if a cookie jar is set to store cookies of
+     * each redirect response.
+     *
+     * @param options Request options
+     *
+     * @return Redirect policy; undefined if redirects are left to "fetch()"
+     * @since  v1.2.0
+     */
+    protected getRedirectPolicy(options: HttpClientRequestOptions) {
+        let _return: HttpClientRedirectPolicy;
+
+        // A redirect mode given explicitly is passed to "fetch()"
+        if (
+            options.redirect === undefined
+            && (!this.redirectsOpaque)
+            && (this.redirectPolicy || options.redirectPolicy || this.cookieJar)
+        ) {
+            _return = {
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+                ...this.instanceClass.DEFAULT_REDIRECT_POLICY as HttpClientRedirectPolicy,
+                ...this.redirectPolicy,
+                ...options.redirectPolicy
+            };
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns the delay before the given attempt should be retried.
+     *
+     * @param method HTTP method
+     * @param requestArgs Request arguments used
+     * @param retryPolicy Retry policy to be applied
+     * @param attempt Number of the attempt finished
+     * @param response Response data received
+     * @param error Exception thrown while sending the request
+     *
+     * @return Delay in milliseconds; undefined if the request should not be
+     *         retried
+     * @since  v1.2.0
+     */
+    protected getRetryDelay(
+        method: string,
+        requestArgs: HttpClientRequestArgs,
+        retryPolicy: HttpClientRetryPolicy,
+        attempt: number,
+        response?: HttpClientResponse,
+        error?: Error
+    ) {
+        if (
+            attempt >= retryPolicy.maxAttempts
+            || (!retryPolicy.retryMethods.includes(method.toUpperCase()))
+            || HttpClient.isStreamedRequestData(requestArgs.data)
+        ) {
+            return undefined;
+        }
+
+        if (error) {
+            if (!retryPolicy.retryOnErrors.includes(this.getRetryErrorKind(error))) {
+                return undefined;
+            }
+        } else if (!retryPolicy.retryOnStatus.includes(response.code)) {
+            return undefined;
+        }
+
+        if (retryPolicy.respectRetryAfter && response && response.headers.retry_after) {
+            const retryAfter = HttpClient.parseRetryAfter(response.headers.retry_after as string);
+
+            if (retryAfter !== undefined) {
+                return (retryAfter > retryPolicy.maxRetryAfter ? undefined : retryAfter);
+            }
+        }
+
+        const delay = Math.min(retryPolicy.baseDelay * Math.pow(2, attempt - 1), retryPolicy.maxDelay);
+        return Math.round(delay * (1 - (retryPolicy.jitter * Math.random())));
+    }
+
+    /**
+     * Returns the error kind of the given exception for retry policy checks.
+     *
+     * @param error Exception thrown while sending the request
+     *
+     * @return Retry error kind; undefined if not retryable
+     * @since  v1.2.0
+     */
+    protected getRetryErrorKind(error: Error): HttpClientRetryErrorKind {
+        let _return: HttpClientRetryErrorKind;
+
+        if (error instanceof TimeoutError) {
+            _return = 'timeout';
+        } else if (error instanceof NetworkError) {
+            _return = 'network';
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns the transfer options of the request merged with the instance
+     * ones.
+     *
+     * @param requestArgs Request arguments
+     *
+     * @return Transfer options
+     * @since  v1.2.0
+     */
+    protected getTransferOptions(requestArgs: HttpClientRequestArgs) {
+        const options: HttpClientTransferOptions = (requestArgs.options ? requestArgs.options : { });
+
+        const getOption = <K extends keyof HttpClientTransferOptions>(key: K) => (
+            options[key] === undefined ? this.transferOptions[key] : options[key]
+        );
+
+        return {
+            maxResponseSize: getOption('maxResponseSize'),
+            onDownloadProgress: getOption('onDownloadProgress'),
+            onUploadProgress: getOption('onUploadProgress'),
+            stream: getOption('stream')
+        } as HttpClientTransferOptions;
+    }
+
+    /**
+     * Sets the "Authorization" header from the auth provider and replays the
+     * request once if it has been rejected and the provider refreshed its
+     * credentials.
+     *
+     * @param context Middleware context
+     * @param next Callback to continue with the next middleware
+     *
+     * @return Response data
+     * @since  v1.2.0
+     */
+    protected async handleAuthMiddleware(context: HttpClientMiddlewareContext, next: HttpClientMiddlewareNext) {
+        const headers = context.requestInit.headers as Headers;
+
+        const applyAuthorization = async () => {
+            const authorization = await this.authProvider.getAuthorization(context);
+
+            if (authorization) {
+                headers.set('authorization', authorization);
+            }
+        };
+
+        await applyAuthorization();
+        let response = await next();
+
+        if (
+            response.code === 401
+            && this.authProvider.refresh
+            && this.isReplayable(context)
+            && await this.authProvider.refresh(context, response)
+        ) {
+            await applyAuthorization();
+            response = await next();
+        }
+
+        return response;
+    }
+
+    /**
+     * Answers Digest authentication challenges with the credentials set and
+     * replays the request once. The nonce received is reused for subsequent
+     * requests until the server reports it stale. The credentials are sent as
+     * Basic authentication to origins without a Digest challenge received
+     * unless Digest authentication has been set explicitly.
+     *
+     * @param context Middleware context
+     * @param next Callback to continue with the next middleware
+     *
+     * @return Response data
+     * @since  v1.2.0
+     */
+    protected async handleDigestAuthMiddleware(context: HttpClientMiddlewareContext, next: HttpClientMiddlewareNext) {
+        const headers = context.requestInit.headers as Headers;
+        const urlData = uriParse(context.request.url);
+
+        const origin = new URL(context.request.url).origin;
+        const uri = (urlData.path ? urlData.path : '/') + (urlData.query === undefined ? '' : `?${urlData.query}`);
+
+        let digestAuth = this.digestAuths.get(origin);
+        const digestAuthSent = (digestAuth !== undefined);
+
+        if (digestAuthSent) {
+            headers.set('authorization', digestAuth.getAuthorization(context.method, uri, this.authUsername, this.authPassword));
+        } else if (this.basicAuthPreemptive) {
+            headers.set('authorization', 'Basic ' + btoa(this.authUsername + ':' + this.authPassword));
+        }
+
+        let response = await next();
+
+        if (response.code === 401 && response.headers && this.isReplayable(context)) {
+            const challenge = HttpDigestAuth.parseChallenge(response.headers.www_authenticate as string);
+
+            if (challenge && ((!digestAuthSent) || challenge.stale)) {
+                if (digestAuth) {
+                    digestAuth.setChallenge(challenge);
+                } else {
+                    digestAuth = new HttpDigestAuth(challenge);
+                    this.digestAuths.set(origin, digestAuth);
+                }
+
+                headers.set('authorization', digestAuth.getAuthorization(context.method, uri, this.authUsername, this.authPassword));
+                response = await next();
+            }
+        }
+
+        if (digestAuth && response.headers && response.headers.authentication_info) {
+            digestAuth.updateFromAuthenticationInfo(response.headers.authentication_info as string);
+        }
+
+        return response;
+    }
+
+    /**
+     * Returns true if the request of the given middleware context can be sent
+     * again. Streamed request bodies can only be read once.
+     *
+     * @param context Middleware context
+     *
+     * @return True if replayable
+     * @since  v1.2.0
+     */
+    protected isReplayable(context: HttpClientMiddlewareContext) {
+        return (typeof ReadableStream == 'undefined' || (!(context.requestInit.body instanceof ReadableStream)));
+    }
+
+    /**
+     * Wraps the response body to report download progress, to enforce the
+     * maximum response size and to measure the body read if requested.
+     *
+     * @param response Response received
+     * @param transferOptions Transfer options
+     * @param metrics Measurements of the request if metrics are reported
+     *
+     * @return Response to be read
+     * @since  v1.2.0
+     */
+    protected monitorResponse(response: Response, transferOptions: HttpClientTransferOptions, metrics?: HttpClientMetricsState) {
+        const maxResponseSize = transferOptions.maxResponseSize;
+        const onProgress = transferOptions.onDownloadProgress;
+
+        if (metrics && (!response.body)) {
+            metrics.bodyRead = metrics.headersReceived;
+        }
+
+        if ((!response.body) || ((!onProgress) && (!(maxResponseSize > 0)) && (!metrics))) {
+            return response;
+        }
+
+        const contentLength = parseInt(response.headers.get('content-length'), 10);
+        const total = (isNaN(contentLength) ? undefined : contentLength);
+
+        if (maxResponseSize > 0 && total > maxResponseSize) {
+            void response.body.cancel();
+            throw new ResponseTooLargeError(maxResponseSize);
+        }
+
+        const reader = response.body.getReader();
+        let loaded = 0;
+
+        const body = new ReadableStream<Uint8Array>({
+            cancel: (reason: unknown) => reader.cancel(reason),
+            pull: async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+                const chunk = await reader.read();
+
+                if (chunk.done) {
+                    if (metrics) {
+                        metrics.bodyRead = Date.now();
+                    }
+
+                    controller.close();
+                    return;
+                }
+
+                loaded += chunk.value.byteLength;
+
+                if (metrics) {
+                    metrics.bytesReceived = loaded;
+                }
+
+                if (maxResponseSize > 0 && loaded > maxResponseSize) {
+                    void reader.cancel();
+                    controller.error(new ResponseTooLargeError(maxResponseSize));
+
+                    return;
+                }
+
+                controller.enqueue(chunk.value);
+
+                if (onProgress) {
+                    onProgress({ loaded, total });
+                }
+            }
+        });
+
+        const _return = new Response(
+            body,
+            { headers: response.headers, status: response.status, statusText: response.statusText }
+        );
+
+        Object.defineProperty(_return, 'redirected', { value: response.redirected });
+        Object.defineProperty(_return, 'url', { value: response.url });
+
+        return _return;
+    }
+
+    /**
+     * Reports upload progress for the request body. Streamed bodies are
+     * reported chunk by chunk, all others before sending and after the
+     * response has been received.
+     *
+     * @param requestInit Request arguments to be sent
+     * @param onProgress Progress callback
+     *
+     * @return Callback to be called once the response has been received;
+     *         undefined for streamed bodies
+     * @since  v1.2.0
+     */
+    protected monitorUpload(requestInit: RequestInit, onProgress: HttpClientProgressCallback) {
+        const headers = requestInit.headers as Headers;
+        let loaded = 0;
+        let total = HttpClient.getBodySize(requestInit.body);
+
+        if (typeof ReadableStream != 'undefined' && requestInit.body instanceof ReadableStream) {
+            const contentLength = parseInt(headers.get('content-length'), 10);
+            const reader = (requestInit.body as ReadableStream<Uint8Array>).getReader();
+
+            total = (isNaN(contentLength) ? undefined : contentLength);
+
+            requestInit.body = new ReadableStream<Uint8Array>({
+                cancel: (reason: unknown) => reader.cancel(reason),
+                pull: async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+                    const chunk = await reader.read();
+
+                    if (chunk.done) {
+                        controller.close();
+                    } else {
+                        loaded += chunk.value.byteLength;
+
+                        controller.enqueue(chunk.value);
+                        onProgress({ loaded, total });
+                    }
+                }
+            });
+
+            return undefined;
+        }
+
+        onProgress({ loaded, total });
+
+        return () => {
+            if (total !== undefined) {
+                onProgress({ loaded: total, total });
+            }
+        };
+    }
+
+    /**
+     * Parses the response received and generates a structured response data object.
+     *
+     * @param method HTTP method
+     * @param requestArgs Request arguments to be used
+     * @param response Response received
+     *
+     * @return Response data; 'body' may contain the catched Exception
+     * @since  v1.1.0
+     */
+    protected async newResponse(method: string, requestArgs: HttpClientRequestArgs, response: Response) {
+        const responseHeaders = { } as MapObject;
+
+        // Good old legacy code strikes here
+        if ('forEach' in response.headers) {
+            response.headers.forEach(
+                (value: string, name: string) => {
+                    responseHeaders[name.toLowerCase().replace(/-/g, '_')] = value;
+                }
+            );
+        } else if ('entries' in response.headers) {
+            const headers = response.headers as Map<string, unknown>;
+
+            for (const header in headers.entries()) {
+                responseHeaders[header[0].toLowerCase().replace(/-/g, '_')] = header[1];
+            }
+        }
+
+        // eslint-disable-next-line sort-keys
+        const _return: HttpClientResponse = { code: response.status, headers: responseHeaders, body: null };
+
+        if (this.returnRawResponse) {
+            _return['rawResponse'] = response;
+        }
+
+        const contentType = response.headers.get('content-type');
+
+        const codec = (
+            (this.codecs && method !== 'HEAD' && (!this.returnRawResponse))
+            ? this.codecs.getCodec(contentType)
+            : undefined
+        );
+
+        if (!response.ok) {
+            const error = new HttpStatusError(
+                response.status,
+                response.statusText,
+                responseHeaders,
+                // The raw response is left unread for subclasses
+                (method === 'HEAD' ? undefined : await this.decodeErrorBody(this.returnRawResponse ? response.clone() : response))
+            );
+
+            _return.body = error;
+
+            if (error.problem) {
+                _return.problem = error.problem;
+            }
+        } else if (method !== 'HEAD' && response.body && this.getTransferOptions(requestArgs).stream) {
+            _return.body = HttpClient.readChunks(response.body);
+        } else if (codec) {
+            _return.body = await codec.decode(response, contentType);
+        } else if (method !== 'HEAD' && (!this.returnRawResponse)) {
+            _return.body = await response.blob();
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns the typed error for the given exception thrown by the transport.
+     *
+     * @param error Exception thrown by the transport
+     *
+     * @return HTTP client error
+     * @since  v1.2.0
+     */
+    protected newTransportError(error: Error) {
+        let _return;
+
+        if (error instanceof HttpClientError) {
+            _return = error;
+        } else if (error && error.name === 'AbortError') {
+            _return = new AbortError(error);
+        } else {
+            // fetch() rejects with a "TypeError" for network failures
+            _return = new NetworkError(error);
+        }
+
+        return _return;
+    }
+
+    /**
+     * Requests all pages of a listing as defined by the given pagination
+     * strategy. Requests are sent with "GET" and errors are thrown. A page
+     * prefetched is aborted if the iteration is left early.
+     *
+     * @param params Parameters of the first page
+     * @param strategy Pagination strategy
+     * @param options Pagination and request options
+     *
+     * @return Async iterator of pages
+     * @since  v1.2.0
+     */
+    public async *paginate<T = unknown>(
+        params: MapObject = { },
+        strategy: HttpClientPaginationStrategy = HttpPagination.link(),
+        options: HttpClientPaginationOptions<T> = { }
+    ): AsyncGenerator<HttpClientPage<T>> {
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+
+        if (options.signal) {
+            if (options.signal.aborted) {
+                controller.abort();
+            } else {
+                options.signal.addEventListener('abort', onAbort);
+            }
+        }
+
+        let nextPageRequest: HttpClientPageRequest | void = {
+            params: (strategy.initial ? strategy.initial(params) : params)
+        };
+
+        let pages = 0;
+        let pendingPage: Promise<HttpClientPage<T>>;
+
+        try {
+            while (nextPageRequest || pendingPage) {
+                if (pendingPage === undefined) {
+                    pendingPage = this.requestPage(nextPageRequest as HttpClientPageRequest, options, controller.signal);
+                }
+
+                const page = await pendingPage;
+                pages++;
+
+                pendingPage = undefined;
+
+                nextPageRequest = (
+                    (options.maxPages === undefined || pages < options.maxPages)
+                    ? await strategy.next(page)
+                    : undefined
+                );
+
+                if (nextPageRequest && options.prefetch) {
+                    pendingPage = this.requestPage(nextPageRequest, options, controller.signal);
+                    nextPageRequest = undefined;
+
+                    // Rejections are handled once awaited or ignored if left early
+                    pendingPage.catch(() => { /* Ignored */ });
+                }
+
+                yield page;
+            }
+        } finally {
+            if (pendingPage !== undefined) {
+                controller.abort();
+            }
+
+            if (options.signal) {
+                options.signal.removeEventListener('abort', onAbort);
+            }
+        }
+    }
+
+    /**
+     * Requests the pages of a listing as defined by the given pagination
+     * strategy and returns the items contained.
+     *
+     * @param params Parameters of the first page
+     * @param strategy Pagination strategy
+     * @param options Pagination and request options
+     *
+     * @return Async iterator of items
+     * @since  v1.2.0
+     */
+    public async *paginateItems<I = unknown>(
+        params: MapObject = { },
+        strategy: HttpClientPaginationStrategy = HttpPagination.link(),
+        options: HttpClientPaginationOptions = { }
+    ): AsyncGenerator<I> {
+        let items = 0;
+
+        if (options.maxItems !== undefined && options.maxItems < 1) {
+            return;
+        }
+
+        for await (const page of this.paginate(params, strategy, options)) {
+            for (const item of page.items) {
+                yield item as I;
+                items++;
+
+                if (options.maxItems !== undefined && items >= options.maxItems) {
+                    return;
+                }
+            }
+        }
+    }
+
+    /**
+     * Returns the request to be sent for the redirect received. Methods are
+     * rewritten to "GET" for 303 and for "POST" requests redirected with 301
+     * or 302. Credentials are not sent to other origins. Browsers only return
+     * an opaque redirect without the "Location" header. "GET", "HEAD" and
+     * "OPTIONS" requests are sent again to be redirected by "fetch()" then
+     * and the redirect policy is ignored for subsequent requests.
+     *
+     * @param request Request sent
+     * @param init Additional request arguments sent
+     * @param response Response received
+     * @param redirectPolicy Redirect policy to be applied
+     * @param redirects Redirects followed so far
+     *
+     * @return Request for the redirect target; undefined if not followed
+     * @since  v1.2.0
+     */
+    protected async prepareRedirect(
+        request: Request,
+        init: RequestInit,
+        response: Response,
+        redirectPolicy: HttpClientRedirectPolicy,
+        redirects: HttpClientRedirect[]
+    ) {
+        let method = (init.method ? init.method : request.method).toUpperCase();
+
+        if (response.type === 'opaqueredirect') {
+            this.redirectsOpaque = true;
+
+            if (![ 'GET', 'HEAD', 'OPTIONS' ].includes(method)) {
+                throw new RedirectError(redirects, 'Redirect target is not exposed to the redirect policy by this runtime');
+            }
+
+            return { init: { ...init, redirect: 'follow' as RequestRedirect }, request };
+        }
+
+        const location = response.headers.get('location');
+
+        if ((![ 301, 302, 303, 307, 308 ].includes(response.status)) || (!location)) {
+            return undefined;
+        }
+
+        const from = (response.url ? response.url : request.url);
+        const to = new URL(location, from).href;
+
+        let body = init.body;
+
+        if ((response.status === 303 && method !== 'HEAD') || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+            body = undefined;
+            method = 'GET';
+        } else if (typeof ReadableStream != 'undefined' && body instanceof ReadableStream) {
+            // Streamed request bodies can not be sent again
+            return undefined;
+        }
+
+        const redirect: HttpClientRedirect = { code: response.status, from, method, to };
+
+        if (redirects.length >= redirectPolicy.maxRedirects) {
+            throw new RedirectError(redirects.concat(redirect));
+        }
+
+        if (redirectPolicy.onRedirect && (!(await redirectPolicy.onRedirect(redirect)))) {
+            return undefined;
+        }
+
+        redirects.push(redirect);
+
+        if (response.body) {
+            response.body.cancel().catch(() => { /* Ignored */ });
+        }
+
+        const headers = new Headers(init.headers ? init.headers : request.headers);
+
+        if (body === undefined) {
+            for (const name of [ 'content-encoding', 'content-language', 'content-length', 'content-location', 'content-type' ]) {
+                headers.delete(name);
+            }
+        }
+
+        if (new URL(from).origin !== new URL(to).origin) {
+            headers.delete('authorization');
+            headers.delete('cookie');
+            headers.delete('proxy-authorization');
+        }
+
+        return {
+            init: { ...init, body, headers, method },
+            request: this.configureFromUrl(to)
+        };
+    }
+
+    /**
+     * Calls the given release callback once the response body has been read,
+     * cancelled or failed. Responses without a body are released immediately.
+     *
+     * @param response Response received
+     * @param release Callback to release resources bound to the body
+     *
+     * @return Response to be read
+     * @since  v1.2.0
+     */
+    protected releaseWithBody(response: Response, release: () => void) {
+        if (!response.body) {
+            release();
+            return response;
+        }
+
+        const reader = response.body.getReader();
+
+        const body = new ReadableStream<Uint8Array>({
+            cancel: (reason: unknown) => {
+                release();
+                return reader.cancel(reason);
+            },
+            pull: async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+                let chunk: ReadableStreamReadResult<Uint8Array>;
+
+                try {
+                    chunk = await reader.read();
+                } catch (error) {
+                    release();
+                    throw error;
+                }
+
+                if (chunk.done) {
+                    release();
+                    controller.close();
+                } else {
+                    controller.enqueue(chunk.value);
+                }
+            }
+        });
+
+        const _return = new Response(
+            body,
+            { headers: response.headers, status: response.status, statusText: response.statusText }
+        );
+
+        Object.defineProperty(_return, 'redirected', { value: response.redirected });
+        Object.defineProperty(_return, 'type', { value: response.type });
+        Object.defineProperty(_return, 'url', { value: response.url });
+
+        return _return;
+    }
+
+    /**
+     * Reports the metrics of the completed request.
+     *
+     * @param method HTTP method
+     * @param options Request options
+     * @param metrics Measurements of the request
+     * @param traceparent "traceparent" header sent
+     * @param response Response data
+     * @param error Error the request failed with
+     *
+     * @since v1.2.0
+     */
+    protected reportMetrics(
+        method: string,
+        options: HttpClientRequestOptions,
+        metrics: HttpClientMetricsState,
+        traceparent: string,
+        response?: HttpClientResponse,
+        error?: unknown
+    ) {
+        const finished = Date.now();
+        const transportCalled = (metrics.transportCalled === undefined ? metrics.requestSent : metrics.transportCalled);
+
+        if ((!error) && response && response.body instanceof HttpStatusError) {
+            error = response.body;
+        }
+
+        try {
+            this.onMetrics({
+                bytesReceived: metrics.bytesReceived,
+                bytesSent: metrics.bytesSent,
+                durations: {
+                    body: (
+                        metrics.headersReceived === undefined
+                        ? undefined
+                        : (metrics.bodyRead === undefined ? finished : metrics.bodyRead) - metrics.headersReceived
+                    ),
+                    headers: (metrics.headersReceived === undefined ? undefined : metrics.headersReceived - transportCalled),
+                    queue: (metrics.requestSent === undefined ? undefined : transportCalled - metrics.requestSent),
+                    total: finished - metrics.started
+                },
+                error: (error instanceof Error ? error.name : undefined),
+                method: method.toUpperCase(),
+                retries: Math.max(0, metrics.attempts - 1),
+                status: (response && response.code !== undefined ? response.code : undefined),
+                traceparent: (traceparent ? traceparent : undefined),
+                url: (metrics.url ? metrics.url : this.url),
+                urlTemplate: (options.url !== undefined && options.variables ? options.url : undefined)
+            });
+        } catch (handledException) {
+            // Failing metrics callbacks never fail the request
+        }
+    }
+
+    /**
+     * Call a given request method on the configured HTTP server.
+     *
+     * @param method HTTP method
+     * @param options Request options including query parameters and HTTP body
+     *
+     * @return Response data; 'body' may contain the catched exception unless
+     *         errors are thrown
+     * @since  v1.2.0
+     */
+    public request<T = unknown>(method: string, options?: HttpClientRequestOptions<T>): Promise<HttpClientResponse<T>>;
+
+    /**
+     * Call a given request method on the configured HTTP server.
+     *
+     * @param method HTTP method
+     * @param separator Query parameter separator
+     * @param params Parsed query parameters as str
+     * @param data HTTP body
+     * @param options Request options
+     *
+     * @return Response data; 'body' may contain the catched exception unless
+     *         errors are thrown
+     * @since  v1.0.0
+     */
+    public request<T = unknown>(
+        method: string,
+        separator?: string,
+        params?: HttpClientQueryParams,
+        data?: HttpClientRequestData,
+        options?: HttpClientRequestOptions<T>
+    ): Promise<HttpClientResponse<T>>;
+
+    public async request<T = unknown>(
+        method: string,
+        separator: HttpClientRequestOptions<T> | string = ';',
+        params?: HttpClientQueryParams,
+        data?: HttpClientRequestData,
+        options: HttpClientRequestOptions<T> = { }
+    ) {
+        if (typeof separator == 'object') {
+            options = separator;
+            separator = (options.separator ? options.separator : ';');
+
+            params = this.buildRequestParameters(options.params, separator);
+            data = options.data;
+        }
+
+        const throwErrors = (options.throwErrors === undefined ? this.throwErrors : options.throwErrors);
+        let _return;
+
+        const metrics: HttpClientMetricsState = (
+            this.onMetrics ? { attempts: 0, bytesReceived: 0, started: Date.now() } : undefined
+        );
+
+        let error: unknown;
+        let headers: Headers;
+
+        try {
+            // Instance headers are never changed by requests
+            headers = new Headers(this._requestInstance.headers);
+
+            if (options.headers) {
+                new Headers(options.headers).forEach((value: string, name: string) => { headers.set(name, value); });
+            }
+
+            if (this.codecs && (!headers.has('accept'))) {
+                const accept = this.codecs.getAcceptHeader();
+
+                if (accept) {
+                    headers.set('accept', accept);
+                }
+            }
+
+            const requestArgs: HttpClientRequestArgs = { data, headers, metrics, options };
+
+            if (typeof params == 'string') {
+                requestArgs['params'] = params;
+                requestArgs['separator'] = separator;
+            }
+
+            if (this.traceContextProvider && (!headers.has('traceparent'))) {
+                this.setTraceContextHeaders(headers);
+            }
+
+            const retryPolicy = (
+                options.retryPolicy ? { ...this.retryPolicy, ...options.retryPolicy } : this.retryPolicy
+            );
+
+            _return = await this.requestWithRetryPolicy(method, requestArgs, retryPolicy);
+
+            if (throwErrors && _return.body instanceof HttpStatusError) {
+                throw _return.body;
+            }
+        } catch (handledException) {
+            error = handledException;
+
+            if (throwErrors) {
+                throw handledException;
+            }
+
+            // eslint-disable-next-line sort-keys, @typescript-eslint/no-unsafe-assignment
+            _return = { code: undefined, headers: undefined, body: handledException } as HttpClientResponse;
+        } finally {
+            if (metrics) {
+                this.reportMetrics(method, options, metrics, (headers ? headers.get('traceparent') : null), _return, error);
+            }
+        }
+
+        return _return as HttpClientResponse<T>;
+    }
+
+    /**
+     * Sends the request to the configured HTTP server and returns the result.
+     *
+     * @param method HTTP method
+     * @param requestArgs Request arguments to be used
+     *
+     * @return Response data; 'body' may contain the catched Exception
+     * @since  v1.0.0
+     */
+    protected async _request(method: string, requestArgs: HttpClientRequestArgs) {
+        const options = (requestArgs.options ? requestArgs.options : { });
+        let request;
+
+        if (options.url !== undefined || requestArgs.params) {
+            const separator = (requestArgs.separator ? requestArgs.separator : ';');
+            let url = (options.url === undefined ? this.url : this.resolveUrl(options.url, options.variables, separator));
+
+            if (requestArgs.params) {
+                url = this.buildRequestUrl(url, requestArgs.params, separator);
+            }
+
+            request = this.configureFromUrl(url);
+        } else {
+            request = this._requestInstance;
+        }
+
+        // Middlewares may rewrite request arguments for each attempt separately
+        requestArgs = { ...requestArgs, headers: new Headers(requestArgs.headers) };
+
+        const requestInit: RequestInit = {
+            cache: options.cache,
+            credentials: options.credentials,
+            headers: requestArgs.headers,
+            method,
+            mode: options.mode,
+            redirect: options.redirect,
+            signal: options.signal
+        };
+
+        return await this.runMiddlewares({ method, request, requestArgs, requestInit });
+    }
+
+    /**
+     * Sends the request and retries it as defined by the given retry policy.
+     *
+     * @param method HTTP method
+     * @param requestArgs Request arguments to be used
+     * @param retryPolicy Retry policy to be applied
+     *
+     * @return Response data of the last attempt
+     * @since  v1.2.0
+     */
+    protected async requestWithRetryPolicy(
+        method: string,
+        requestArgs: HttpClientRequestArgs,
+        retryPolicy: HttpClientRetryPolicy
+    ) {
+        for (let attempt = 1; ; attempt++) {
+            let error: Error;
+            let response: HttpClientResponse;
+
+            if (requestArgs.metrics) {
+                requestArgs.metrics.attempts = attempt;
+            }
+
+            try {
+                response = await this._request(method, requestArgs);
+            } catch (handledException) {
+                error = handledException as Error;
+            }
+
+            const delay = this.getRetryDelay(method, requestArgs, retryPolicy, attempt, response, error);
+
+            if (delay === undefined) {
+                if (error) {
+                    throw error;
+                }
+
+                return response;
+            }
+
+            await this.wait(delay, (requestArgs.options ? requestArgs.options.signal : undefined));
+        }
+    }
+
+    /**
+     * Requests the page described and extracts its items.
+     *
+     * @param pageRequest Page request
+     * @param options Pagination and request options
+     * @param signal Abort signal used for the page request
+     *
+     * @return Page data
+     * @since  v1.2.0
+     */
+    protected async requestPage<T = unknown>(
+        pageRequest: HttpClientPageRequest,
+        options: HttpClientPaginationOptions<T>,
+        signal: AbortSignal
+    ) {
+        // Strategies without URLs request the URL given as an option
+        const url = (pageRequest.url ? pageRequest.url : options.url);
+
+        const response = await this.request<T>(
+            'GET',
+            { ...options, params: pageRequest.params, signal, throwErrors: true, url }
+        );
+
+        return {
+            items: HttpPagination.extractItems(response.body, options.items),
+            request: pageRequest,
+            response,
+            url: (url ? this.resolveUrl(url, (pageRequest.url ? undefined : options.variables)) : this.url)
+        } as HttpClientPage<T>;
     }
 
     /**
      * Do a DELETE request on the connected HTTP server.
      *
-     * @param params Query parameters object
-     * @param separator Query parameter separator
-     * @param data HTTP body
+     * @param params Query parameters object
+     * @param separator Query parameter separator
+     * @param data HTTP body
+     * @param options Request options
+     *
+     * @return Response data; Exception on error
+     * @since  v1.0.0
+     */
+    public async requestDelete<T = unknown>(params?: HttpClientQueryParams, separator = ';', data?: HttpClientRequestData, options: HttpClientRequestOptions<T> = { }) {
+        params = this.buildRequestParameters(params, separator);
+        return this.request<T>('DELETE', separator, params, data, options);
+    }
+
+    /**
+     * Do a GET request on the connected HTTP server.
+     *
+     * @param params Query parameters object
+     * @param separator Query parameter separator
+     * @param options Request options
+     *
+     * @return Response data; Exception on error
+     * @since  v1.0.0
+     */
+    public async requestGet<T = unknown>(params?: HttpClientQueryParams, separator = ';', options: HttpClientRequestOptions<T> = { }) {
+        params = this.buildRequestParameters(params, separator);
+        return this.request<T>('GET', separator, params, undefined, options);
+    }
+
+    /**
+     * Do a HEAD request on the connected HTTP server.
+     *
+     * @param params Query parameters object
+     * @param separator Query parameter separator
+     * @param options Request options
+     *
+     * @return Response data; Exception on error
+     * @since  v1.0.0
+     */
+    public async requestHead<T = unknown>(params?: HttpClientQueryParams, separator = ';', options: HttpClientRequestOptions<T> = { }) {
+        params = this.buildRequestParameters(params, separator);
+        return this.request<T>('HEAD', separator, params, undefined, options);
+    }
+
+    /**
+     * Do a PATCH request on the connected HTTP server.
+     *
+     * @param data HTTP body
+     * @param params Query parameters object
+     * @param separator Query parameter separator
+     * @param options Request options
+     *
+     * @return Response data; Exception on error
+     * @since  v1.0.0
+     */
+    public async requestPatch<T = unknown>(data?: HttpClientRequestData, params?: HttpClientQueryParams, separator = ';', options: HttpClientRequestOptions<T> = { }) {
+        params = this.buildRequestParameters(params, separator);
+        return this.request<T>('PATCH', separator, params, data, options);
+    }
+
+    /**
+     * Do a POST request on the connected HTTP server.
+     *
+     * @param data HTTP body
+     * @param params Query parameters object
+     * @param separator Query parameter separator
+     * @param options Request options
+     *
+     * @return Response data; Exception on error
+     * @since  v1.0.0
+     */
+    public async requestPost<T = unknown>(data?: HttpClientRequestData, params?: HttpClientQueryParams, separator = ';', options: HttpClientRequestOptions<T> = { }) {
+        params = this.buildRequestParameters(params, separator);
+        return this.request<T>('POST', separator, params, data, options);
+    }
+
+    /**
+     * Do a PUT request on the connected HTTP server.
+     *
+     * @param data HTTP body
+     * @param params Query parameters object
+     * @param separator Query parameter separator
+     * @param options Request options
+     *
+     * @return Response data; Exception on error
+     * @since  v1.0.0
+     */
+    public async requestPut<T = unknown>(data?: HttpClientRequestData, params?: HttpClientQueryParams, separator = ';', options: HttpClientRequestOptions<T> = { }) {
+        params = this.buildRequestParameters(params, separator);
+        return this.request<T>('PUT', separator, params, data, options);
+    }
+
+    /**
+     * Do a OPTIONS request on the connected HTTP server.
+     *
+     * @param params Query parameters object
+     * @param separator Query parameter separator
+     * @param data HTTP body
+     * @param options Request options
+     *
+     * @return Response data; Exception on error
+     * @since  v1.0.0
+     */
+    public async requestOptions<T = unknown>(params?: HttpClientQueryParams, separator = ';', data?: HttpClientRequestData, options: HttpClientRequestOptions<T> = { }) {
+        params = this.buildRequestParameters(params, separator);
+        return this.request<T>('OPTIONS', separator, params, data, options);
+    }
+
+    /**
+     * Do a TRACE request on the connected HTTP server.
+     *
+     * @param params Query parameters object
+     * @param separator Query parameter separator
+     * @param options Request options
+     *
+     * @return Response data; Exception on error
+     * @since  v1.0.0
+     */
+    public async requestTrace<T = unknown>(params?: HttpClientQueryParams, separator = ';', options: HttpClientRequestOptions<T> = { }) {
+        params = this.buildRequestParameters(params, separator);
+        return this.request<T>('TRACE', separator, params, undefined, options);
+    }
+
+    /**
+     * Resets previously set headers.
+     *
+     * @since v1.0.0
+     */
+    public resetHeaders() {
+        if (this._requestInstance) {
+            this._requestInstance = new Request(this._requestInstance, { headers: new Headers() });
+        }
+    }
+
+    /**
+     * Returns the absolute URL for the given URL reference resolved against
+     * the client URL. Relative paths are appended to the path of the client
+     * URL and query parameters of the client URL are preserved for all
+     * references not being absolute. Query parameters of an expanded URI
+     * template are always appended with "&" as used by the template.
+     *
+     * @param url URL reference or RFC 6570 URI template
+     * @param variables Variables to expand the URI template with
+     * @param separator Query parameter separator for URL references
+     *
+     * @return Absolute URL
+     * @since  v1.2.0
+     */
+    public resolveUrl(url: string, variables?: MapObject, separator = ';') {
+        const baseUrl = this.url;
+
+        if (variables) {
+            url = HttpUriTemplate.expand(url, variables);
+        }
+
+        if (url === '' || url.charAt(0) === '#' || uriParse(url).scheme || url.slice(0, 2) === '//') {
+            return uriResolve(baseUrl, url);
+        }
+
+        const baseUrlData = /^([^?#]*)(?:\?([^#]*))?/.exec(baseUrl);
+        let _return;
+
+        if ((/^[?/]/).test(url) || baseUrlData[1].slice(-1) === '/') {
+            _return = uriResolve(baseUrl, url);
+        } else {
+            _return = uriResolve(baseUrlData[1] + '/', url);
+        }
+
+        if (baseUrlData[2]) {
+            const urlData = /^([^?#]*)(?:\?([^#]*))?(#.*)?$/.exec(_return);
+
+            _return = urlData[1] + '?' + baseUrlData[2]
+                + (urlData[2] ? (variables ? '&' : separator) + urlData[2] : '')
+                + (urlData[3] ? urlData[3] : '');
+        }
+
+        return _return;
+    }
+
+    /**
+     * Passes the request through the middleware chain and sends it.
+     *
+     * @param context Middleware context
+     *
+     * @return Response data
+     * @since  v1.2.0
+     */
+    protected runMiddlewares(context: HttpClientMiddlewareContext) {
+        const middlewares = this.getMiddlewares();
+
+        const next = (index: number): Promise<HttpClientResponse> => (
+            (index < middlewares.length)
+            ? middlewares[index](context, () => next(index + 1))
+            : this.fetchResponse(context)
+        );
+
+        return next(0);
+    }
+
+    /**
+     * Sends the request once with the timeout given. The outcome is recorded
+     * by the circuit breaker if set.
+     *
+     * @param request HTTP request to be send
+     * @param init Additional request arguments to be applied
+     * @param timeout Timeout in milliseconds; 0 for none
+     * @param priority Priority of the request if queued by a scheduler
+     * @param metrics Measurements of the request if metrics are reported
+     *
+     * @return Response promise
+     * @since  v1.2.0
+     */
+    protected async sendAttempt(
+        request: Request,
+        init: RequestInit,
+        timeout: number,
+        priority: number,
+        metrics?: HttpClientMetricsState
+    ) {
+        const recordOutcome = (this.circuitBreaker ? this.circuitBreaker.acquire(request.url) : undefined);
+        let _return: Response;
+
+        try {
+            _return = await (
+                (timeout > 0)
+                ? this.fetchWithTimeout(request, init, timeout, priority, metrics)
+                : this.sendRequest(request, init, priority, metrics)
+            );
+        } catch (handledException) {
+            const error = this.newTransportError(handledException as Error);
+
+            if (recordOutcome) {
+                recordOutcome(undefined, error);
+            }
+
+            throw error;
+        }
+
+        if (recordOutcome) {
+            recordOutcome(_return);
+        }
+
+        return _return;
+    }
+
+    /**
+     * Sends the request with the transport, queued by the scheduler if set.
+     * Cookies of the cookie jar are sent and cookies received are stored.
+     *
+     * @param request HTTP request to be send
+     * @param init Additional request arguments to be applied
+     * @param priority Priority of the request if queued by a scheduler
+     * @param metrics Measurements of the request if metrics are reported
+     *
+     * @return Response promise
+     * @since  v1.2.0
+     */
+    protected sendRequest(request: Request, init: RequestInit, priority = 0, metrics?: HttpClientMetricsState) {
+        const cookieJar = this.cookieJar;
+
+        if (cookieJar) {
+            const cookieHeader = cookieJar.getCookieHeader(request.url);
+            const headers = new Headers(init.headers ? init.headers : request.headers);
+
+            if (cookieHeader) {
+                headers.set('cookie', (headers.has('cookie') ? `${headers.get('cookie')}; ${cookieHeader}` : cookieHeader));
+            }
+
+            init = { ...init, headers };
+        }
+
+        let transport = this.transport;
+
+        if (metrics) {
+            transport = (transportRequest: Request, transportInit?: RequestInit) => {
+                metrics.transportCalled = Date.now();
+                return this.transport(transportRequest, transportInit);
+            };
+        }
+
+        const promise = (
+            this.scheduler
+            ? this.scheduler.schedule(request, init, transport, priority, this.environment.timers)
+            : transport(request, init)
+        );
+
+        return (
+            cookieJar
+            ? promise.then(
+                (response: Response) => {
+                    cookieJar.setCookies(
+                        (response.url ? response.url : request.url),
+                        HttpClient.getSetCookieHeaders(response.headers)
+                    );
+
+                    return response;
+                }
+            )
+            : promise
+        );
+    }
+
+    /**
+     * Sets the auth provider setting the "Authorization" header of all
+     * subsequent requests.
+     *
+     * @param authProvider Auth provider; undefined to remove it
+     *
+     * @since v1.2.0
+     */
+    public setAuthProvider(authProvider?: HttpClientAuthProvider) {
+        this.authProvider = authProvider;
+    }
+
+    /**
+     * Sets the basic authentication data. The credentials are sent with each
+     * request until a Digest challenge has been received for the origin.
+     *
+     * @param username Username
+     * @param password Password
+     *
+     * @since v1.0.0
+     */
+    public setBasicAuth(username?: string, password?: string) {
+        this.authUsername = (username ? username : '');
+        this.authPassword = (password ? password : '');
+        this.basicAuthPreemptive = true;
+        this.digestAuths.clear();
+    }
+
+    /**
+     * Sends the request to the first mirror permitted and fails over to the
+     * next ones as defined by the given mirror policy. Hedged attempts still
+     * in flight are aborted once a response has been accepted.
+     *
+     * @param request HTTP request to be send
+     * @param init Additional request arguments to be applied
+     * @param timeout Timeout in milliseconds for each attempt; 0 for none
+     * @param priority Priority of the request if queued by a scheduler
+     * @param metrics Measurements of the request if metrics are reported
+     * @param mirrorPolicy Mirror policy to be applied
+     *
+     * @return Promise resolved with the request sent and its response
+     * @since  v1.2.0
+     */
+    protected sendToMirrors(
+        request: Request,
+        init: RequestInit,
+        timeout: number,
+        priority: number,
+        metrics: HttpClientMetricsState,
+        mirrorPolicy: HttpClientMirrorPolicy
+    ) {
+        type MirrorResult = { request: Request, response: Response };
+
+        const method = (init.method ? init.method : request.method).toUpperCase();
+        const isStreamed = (typeof ReadableStream != 'undefined' && init.body instanceof ReadableStream);
+        const signal = init.signal;
+        const timers = this.environment.timers;
+
+        let candidates = this.getMirrorCandidates(request.url, mirrorPolicy);
+
+        // Requests are sent to other mirrors only if they can be repeated safely
+        if (isStreamed || (!mirrorPolicy.methods.includes(method))) {
+            candidates = candidates.slice(0, 1);
+        }
+
+        const hedgeDelay = (
+            (mirrorPolicy.hedgeDelay > 0 && mirrorPolicy.hedgeMethods.includes(method))
+            ? mirrorPolicy.hedgeDelay
+            : 0
+        );
+
+        return new Promise<MirrorResult>(
+            (resolve: (result: MirrorResult) => void, reject: (reason: Error) => void) => {
+                const controllers = [ ] as AbortController[];
+                let hedgeTimeoutId: unknown;
+                let isSettled = false;
+                let lastResult: MirrorResult;
+                let nextIndex = 0;
+                let pending = 0;
+
+                const cancelBody = (result: MirrorResult) => {
+                    if (result && result.response.body) {
+                        result.response.body.cancel().catch(() => { /* Ignored */ });
+                    }
+                };
+
+                const onAbort = () => {
+                    for (const controller of controllers) {
+                        controller.abort();
+                    }
+                };
+
+                const settle = (acceptedController: AbortController, result?: MirrorResult) => {
+                    isSettled = true;
+                    timers.clearTimeout(hedgeTimeoutId);
+
+                    for (const controller of controllers) {
+                        if (controller !== acceptedController) {
+                            controller.abort();
+                        }
+                    }
+
+                    if (!signal) {
+                        return result;
+                    }
+
+                    signal.removeEventListener('abort', onAbort);
+
+                    if ((!result) || (!result.response.body)) {
+                        return result;
+                    }
+
+                    // Only the accepted attempt is aborted while its response body is read
+                    const onAcceptedAbort = () => { acceptedController.abort(); };
+                    signal.addEventListener('abort', onAcceptedAbort);
+
+                    return {
+                        request: result.request,
+                        response: this.releaseWithBody(
+                            result.response,
+                            () => { signal.removeEventListener('abort', onAcceptedAbort); }
+                        )
+                    };
+                };
+
+                const onOutcome = (
+                    candidate: HttpClientMirrorCandidate,
+                    controller: AbortController,
+                    result?: MirrorResult,
+                    error?: Error
+                ) => {
+                    pending--;
+
+                    if (isSettled) {
+                        cancelBody(result);
+                        return;
+                    }
+
+                    const isFailed = (
+                        error
+                        ? (error instanceof CircuitOpenError || error instanceof NetworkError || error instanceof TimeoutError)
+                        : mirrorPolicy.failoverOnStatus.includes(result.response.status)
+                    );
+
+                    if (!isFailed) {
+                        if (result && candidate.baseUrl !== undefined) {
+                            this.unhealthyMirrors.delete(candidate.baseUrl);
+                        }
+
+                        cancelBody(lastResult);
+
+                        if (error) {
+                            settle(controller);
+                            reject(error);
+                        } else {
+                            resolve(settle(controller, result));
+                        }
+
+                        return;
+                    }
+
+                    if (candidate.baseUrl !== undefined) {
+                        this.unhealthyMirrors.set(candidate.baseUrl, Date.now() + mirrorPolicy.unhealthyBackoff);
+                    }
+
+                    cancelBody(lastResult);
+                    lastResult = result;
+
+                    if (nextIndex < candidates.length) {
+                        start();
+                    } else if (pending < 1) {
+                        if (error) {
+                            settle(controller);
+                            reject(error);
+                        } else {
+                            resolve(settle(controller, result));
+                        }
+                    }
+                };
+
+                const start = () => {
+                    const candidate = candidates[nextIndex++];
+                    const candidateRequest = (candidate.url === request.url ? request : this.configureFromUrl(candidate.url));
+                    const controller = new AbortController();
+
+                    controllers.push(controller);
+
+                    if (signal && signal.aborted) {
+                        controller.abort();
+                    }
+
+                    pending++;
+
+                    this.sendAttempt(candidateRequest, { ...init, signal: controller.signal }, timeout, priority, metrics).then(
+                        (response: Response) => {
+                            onOutcome(candidate, controller, { request: candidateRequest, response });
+                        },
+                        (reason: Error) => {
+                            onOutcome(candidate, controller, undefined, reason);
+                        }
+                    );
+
+                    // At most one hedged attempt is sent in addition
+                    if (hedgeDelay > 0 && pending === 1 && nextIndex < candidates.length) {
+                        timers.clearTimeout(hedgeTimeoutId);
+
+                        hedgeTimeoutId = timers.setTimeout(
+                            () => {
+                                if ((!isSettled) && pending === 1 && nextIndex < candidates.length) {
+                                    start();
+                                }
+                            },
+                            hedgeDelay
+                        );
+                    }
+                };
+
+                if (signal) {
+                    signal.addEventListener('abort', onAbort);
+                }
+
+                start();
+            }
+        );
+    }
+
+    /**
+     * Sets the circuit breaker used for all subsequent requests. A circuit
+     * breaker may be shared by multiple clients.
+     *
+     * @param circuitBreaker Circuit breaker; undefined to remove it
      *
-     * @return Response data; Exception on error
-     * @since  v1.0.0
+     * @since v1.2.0
      */
-    public async requestDelete(params?: HttpClientQueryParams, separator = ';', data?: HttpClientRequestData) {
-        params = this.buildRequestParameters(params, separator);
-        return this.request('DELETE', separator, params, data);
+    public setCircuitBreaker(circuitBreaker?: HttpCircuitBreaker) {
+        this.circuitBreaker = circuitBreaker;
     }
 
     /**
-     * Do a GET request on the connected HTTP server.
+     * Sets the codec registry used to encode request data and decode
+     * responses of all subsequent requests.
      *
-     * @param params Query parameters object
-     * @param separator Query parameter separator
+     * @param codecs Codec registry; undefined to remove it
      *
-     * @return Response data; Exception on error
-     * @since  v1.0.0
+     * @since v1.2.0
      */
-    public async requestGet(params?: HttpClientQueryParams, separator = ';') {
-        params = this.buildRequestParameters(params, separator);
-        return this.request('GET', separator, params);
+    public setCodecs(codecs?: HttpCodecRegistry) {
+        this.codecs = codecs;
     }
 
     /**
-     * Do a HEAD request on the connected HTTP server.
+     * Sets the cookie jar used for all subsequent requests. A cookie jar may
+     * be shared by multiple clients. Redirects are followed by the client
+     * with the default redirect policy if no policy is set.
      *
-     * @param params Query parameters object
-     * @param separator Query parameter separator
+     * @param cookieJar Cookie jar; undefined to remove it
      *
-     * @return Response data; Exception on error
-     * @since  v1.0.0
+     * @since v1.2.0
      */
-    public async requestHead(params?: HttpClientQueryParams, separator = ';') {
-        params = this.buildRequestParameters(params, separator);
-        return this.request('HEAD', separator, params);
+    public setCookieJar(cookieJar?: HttpCookieJar) {
+        this.cookieJar = cookieJar;
     }
 
     /**
-     * Do a PATCH request on the connected HTTP server.
+     * Sets the Digest authentication data. The credentials are never sent as
+     * Basic authentication but only in answer to Digest challenges.
      *
-     * @param data HTTP body
-     * @param params Query parameters object
-     * @param separator Query parameter separator
+     * @param username Username
+     * @param password Password
      *
-     * @return Response data; Exception on error
-     * @since  v1.0.0
+     * @since v1.2.0
      */
-    public async requestPatch(data?: HttpClientRequestData, params?: HttpClientQueryParams, separator = ';') {
-        params = this.buildRequestParameters(params, separator);
-        return this.request('PATCH', separator, params, data);
+    public setDigestAuth(username?: string, password?: string) {
+        this.setBasicAuth(username, password);
+        this.basicAuthPreemptive = false;
     }
 
     /**
-     * Do a POST request on the connected HTTP server.
+     * Sets a header.
      *
-     * @param data HTTP body
-     * @param params Query parameters object
-     * @param separator Query parameter separator
+     * @param name Header name
+     * @param value Header value as string or array
+     * @param valueAppends True if headers should be appended
      *
-     * @return Response data; Exception on error
-     * @since  v1.0.0
+     * @since v1.0.0
      */
-    public async requestPost(data?: HttpClientRequestData, params?: HttpClientQueryParams, separator = ';') {
-        params = this.buildRequestParameters(params, separator);
-        return this.request('POST', separator, params, data);
+    public setHeader(name: string, value: string | string[], valueAppends = false) {
+        name = name.toLowerCase();
+
+        if (value === undefined) {
+            if (this._requestInstance.headers.has(name)) {
+                this._requestInstance.headers.delete(name);
+            }
+        } else if ((!this._requestInstance.headers.has(name)) || valueAppends) {
+            if (!Array.isArray(value)) {
+                value = [ value ];
+            }
+
+            for (const entry of value) {
+                this._requestInstance.headers.append(name, entry);
+            }
+        }
     }
 
     /**
-     * Do a PUT request on the connected HTTP server.
+     * Sets the callback receiving the metrics of all subsequent requests.
      *
-     * @param data HTTP body
-     * @param params Query parameters object
-     * @param separator Query parameter separator
+     * @param onMetrics Metrics callback; undefined to remove it
      *
-     * @return Response data; Exception on error
-     * @since  v1.0.0
+     * @since v1.2.0
      */
-    public async requestPut(data?: HttpClientRequestData, params?: HttpClientQueryParams, separator = ';') {
-        params = this.buildRequestParameters(params, separator);
-        return this.request('PUT', separator, params, data);
+    public setMetricsCallback(onMetrics?: HttpClientMetricsCallback) {
+        this.onMetrics = onMetrics;
     }
 
     /**
-     * Do a OPTIONS request on the connected HTTP server.
+     * Sets the mirror policy applied to all subsequent requests. Values not
+     * given are taken from the default mirror policy. Only the client URL is
+     * requested again if no policy is given.
      *
-     * @param params Query parameters object
-     * @param separator Query parameter separator
-     * @param data HTTP body
+     * @param mirrorPolicy Mirror policy
      *
-     * @return Response data; Exception on error
-     * @since  v1.0.0
+     * @since v1.2.0
      */
-    public async requestOptions(params?: HttpClientQueryParams, separator = ';', data?: HttpClientRequestData) {
-        params = this.buildRequestParameters(params, separator);
-        return this.request('OPTIONS', separator, params, data);
+    public setMirrorPolicy(mirrorPolicy?: HttpClientMirrorPolicy) {
+        this.mirrorPolicy = (
+            mirrorPolicy
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            ? { ...this.instanceClass.DEFAULT_MIRROR_POLICY, ...mirrorPolicy } as HttpClientMirrorPolicy
+            : undefined
+        );
     }
 
     /**
-     * Do a TRACE request on the connected HTTP server.
+     * Sets the encoding of query parameters and form-urlencoded bodies. Values
+     * not given are taken from the default encoding.
      *
-     * @param params Query parameters object
-     * @param separator Query parameter separator
+     * @param queryEncoding Query encoding
      *
-     * @return Response data; Exception on error
-     * @since  v1.0.0
+     * @since v1.2.0
      */
-    public async requestTrace(params?: HttpClientQueryParams, separator = ';') {
-        params = this.buildRequestParameters(params, separator);
-        return this.request('TRACE', separator, params);
+    public setQueryEncoding(queryEncoding?: HttpClientQueryEncoding) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        this.querySerializer = new HttpQuerySerializer({ ...this.instanceClass.DEFAULT_QUERY_ENCODING, ...queryEncoding });
     }
 
     /**
-     * Resets previously set headers.
+     * Sets the redirect policy applied to all subsequent requests. Values not
+     * given are taken from the default redirect policy. Redirects are
+     * followed by "fetch()" again if neither a policy nor a cookie jar is
+     * set.
      *
-     * @since v1.0.0
+     * @param redirectPolicy Redirect policy
+     *
+     * @since v1.2.0
      */
-    public resetHeaders() {
-        if (this._requestInstance) {
-            this._requestInstance = new Request(this._requestInstance, { headers: new Headers() });
+    public setRedirectPolicy(redirectPolicy?: HttpClientRedirectPolicy) {
+        this.redirectPolicy = (
+            redirectPolicy
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            ? { ...this.instanceClass.DEFAULT_REDIRECT_POLICY, ...redirectPolicy } as HttpClientRedirectPolicy
+            : undefined
+        );
+    }
+
+    /**
+     * Sets the retry policy applied to all subsequent requests. Values not
+     * given are taken from the default retry policy.
+     *
+     * @param retryPolicy Retry policy
+     *
+     * @since v1.2.0
+     */
+    public setRetryPolicy(retryPolicy?: HttpClientRetryPolicy) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        this.retryPolicy = { ...this.instanceClass.DEFAULT_RETRY_POLICY, ...retryPolicy } as HttpClientRetryPolicy;
+    }
+
+    /**
+     * Sets the scheduler limiting all subsequent requests. A scheduler may be
+     * shared by multiple clients.
+     *
+     * @param scheduler Scheduler; undefined to remove it
+     *
+     * @since v1.2.0
+     */
+    public setScheduler(scheduler?: HttpScheduler) {
+        this.scheduler = scheduler;
+    }
+
+    /**
+     * Sets the W3C "traceparent" and "tracestate" headers for the trace
+     * context provided. Invalid trace contexts are ignored.
+     *
+     * @param headers Request headers
+     *
+     * @since v1.2.0
+     */
+    protected setTraceContextHeaders(headers: Headers) {
+        const traceContext = this.traceContextProvider();
+
+        if (
+            traceContext
+            && (/^[0-9a-f]{32}$/).test(traceContext.traceId)
+            && (/^[0-9a-f]{16}$/).test(traceContext.spanId)
+            && (!(/^0+$/).test(traceContext.traceId))
+            && (!(/^0+$/).test(traceContext.spanId))
+        ) {
+            const traceFlags = (traceContext.traceFlags > 0 ? Math.floor(traceContext.traceFlags) % 256 : 0);
+            const traceState = traceContext.traceState;
+
+            headers.set(
+                'traceparent',
+                `00-${traceContext.traceId}-${traceContext.spanId}-${(traceFlags < 16 ? '0' : '') + traceFlags.toString(16)}`
+            );
+
+            const traceStateValue = (
+                typeof traceState == 'string' ? traceState : (traceState ? traceState.serialize() : undefined)
+            );
+
+            if (traceStateValue && (!headers.has('tracestate'))) {
+                headers.set('tracestate', traceStateValue);
+            }
         }
     }
 
     /**
-     * Sets the basic authentication data.
+     * Sets the provider of the trace context propagated with all subsequent
+     * requests.
      *
-     * @param username Username
-     * @param password Password
+     * @param traceContextProvider Trace context provider; undefined to remove it
      *
-     * @since v1.0.0
+     * @since v1.2.0
      */
-    public setBasicAuth(username?: string, password?: string) {
-        this.authUsername = (username ? username : '');
-        this.authPassword = (password ? password : '');
+    public setTraceContextProvider(traceContextProvider?: HttpClientTraceContextProvider) {
+        this.traceContextProvider = traceContextProvider;
     }
 
     /**
-     * Sets a header.
+     * Adds a middleware called for all subsequent requests after the ones
+     * already registered.
      *
-     * @param name Header name
-     * @param value Header value as string or array
-     * @param valueAppends True if headers should be appended
+     * @param middleware Middleware
      *
-     * @since v1.0.0
+     * @return HTTP client instance
+     * @since  v1.2.0
      */
-    public setHeader(name: string, value: string | string[], valueAppends = false) {
-        name = name.toLowerCase();
+    public use(middleware: HttpClientMiddleware) {
+        this.middlewares.push(middleware);
+        return this;
+    }
 
-        if (value === undefined) {
-            if (this._requestInstance.headers.has(name)) {
-                this._requestInstance.headers.delete(name);
+    /**
+     * Returns a promise resolved after the given delay. It is rejected with
+     * an "AbortError" as soon as the signal given is aborted.
+     *
+     * @param delay Delay in milliseconds
+     * @param signal Abort signal of the request
+     *
+     * @return Promise resolved after the delay
+     * @since  v1.2.0
+     */
+    protected wait(delay: number, signal?: AbortSignal) {
+        return new Promise<void>(
+            (resolve: () => void, reject: (reason: Error) => void) => {
+                const timers = this.environment.timers;
+
+                if (signal && signal.aborted) {
+                    reject(new AbortError());
+                    return;
+                }
+
+                const onAbort = () => {
+                    timers.clearTimeout(timeoutId);
+                    reject(new AbortError());
+                };
+
+                const timeoutId = timers.setTimeout(
+                    () => {
+                        if (signal) {
+                            signal.removeEventListener('abort', onAbort);
+                        }
+
+                        resolve();
+                    },
+                    delay
+                );
+
+                if (signal) {
+                    signal.addEventListener('abort', onAbort);
+                }
             }
-        } else if ((!this._requestInstance.headers.has(name)) || valueAppends) {
-            if (!Array.isArray(value)) {
-                value = [ value ];
+        );
+    }
+
+    /**
+     * Returns the size of the given request body if known.
+     *
+     * @param body HTTP body
+     *
+     * @return Size in bytes; undefined if unknown
+     * @since  v1.2.0
+     */
+    protected static getBodySize(body: BodyInit) {
+        let _return: number;
+
+        if (typeof body == 'string') {
+            _return = (typeof TextEncoder == 'undefined' ? body.length : new TextEncoder().encode(body).byteLength);
+        } else if (typeof Blob != 'undefined' && body instanceof Blob) {
+            _return = body.size;
+        } else if (typeof ArrayBuffer != 'undefined' && (body instanceof ArrayBuffer || ArrayBuffer.isView(body))) {
+            _return = body.byteLength;
+        } else if (typeof URLSearchParams != 'undefined' && body instanceof URLSearchParams) {
+            _return = HttpClient.getBodySize(body.toString());
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns the given URL without query, fragment and trailing slashes to
+     * be used as a mirror base URL.
+     *
+     * @param url Mirror or client URL
+     *
+     * @return Mirror base URL
+     * @since  v1.2.0
+     */
+    protected static getMirrorBaseUrl(url: string) {
+        const parsedUrl = new URL(url);
+        return (parsedUrl.origin + parsedUrl.pathname).replace(/\/+$/, '');
+    }
+
+    /**
+     * Returns all "Set-Cookie" header values of the given headers.
+     *
+     * @param headers Response headers
+     *
+     * @return List of header values
+     * @since  v1.2.0
+     */
+    protected static getSetCookieHeaders(headers: Headers) {
+        const getSetCookie = (headers as Headers & { getSetCookie?: () => string[] }).getSetCookie;
+
+        if (typeof getSetCookie == 'function') {
+            return getSetCookie.call(headers);
+        }
+
+        const value = headers.get('set-cookie');
+
+        // Combined header values are split before the next cookie name
+        return (value ? value.split(/,(?=\s*[^;,=\s]+=)/) : [ ]);
+    }
+
+    /**
+     * Returns true if the given request data is sent as given without any
+     * encoding.
+     *
+     * @param data HTTP body
+     *
+     * @return True if sent as given
+     * @since  v1.2.0
+     */
+    public static isRawRequestData(data: HttpClientRequestData) {
+        return (
+            (typeof data == 'string')
+            || (typeof Blob != 'undefined' && data instanceof Blob)
+            || (typeof ArrayBuffer != 'undefined' && (data instanceof ArrayBuffer || ArrayBuffer.isView(data)))
+            || (typeof FormData != 'undefined' && data instanceof FormData)
+            || (typeof ReadableStream != 'undefined' && data instanceof ReadableStream)
+            || (typeof URLSearchParams != 'undefined' && data instanceof URLSearchParams)
+        );
+    }
+
+    /**
+     * Returns true if the given content type is "application/json" or has the
+     * "+json" structured syntax suffix.
+     *
+     * @param contentType Content type
+     *
+     * @return True if JSON-encoded
+     * @since  v1.2.0
+     */
+    protected static isJsonContentType(contentType?: string) {
+        return (/^application\/(?:[^;]*\+)?json\s*(;|$)/i).test(contentType ? contentType.trim() : '');
+    }
+
+    /**
+     * Returns true if the given request data is streamed and can therefore
+     * only be sent once. Async iterables are streamed as well.
+     *
+     * @param data Request data
+     *
+     * @return True if streamed
+     * @since  v1.2.0
+     */
+    protected static isStreamedRequestData(data: unknown) {
+        return (
+            (typeof ReadableStream != 'undefined' && data instanceof ReadableStream)
+            || (data !== null && typeof data == 'object' && Symbol.asyncIterator in data)
+        );
+    }
+
+    /**
+     * Returns the environment values detected for the current runtime.
+     *
+     * @return Environment values
+     * @since  v1.2.0
+     */
+    protected static detectEnvironment() {
+        const _return: HttpClientEnvironment = {
+            charset: 'UTF-8',
+            timers: {
+                clearTimeout: (id: unknown) => { clearTimeout(id as number); },
+                setTimeout: (callback: () => void, delay: number) => setTimeout(callback, delay)
             }
+        };
 
-            for (const entry of value) {
-                this._requestInstance.headers.append(name, entry);
+        if (typeof document != 'undefined' && document.location) {
+            _return.baseUrl = document.location.href;
+
+            if (document.characterSet) {
+                _return.charset = document.characterSet;
             }
+        } else if (typeof self != 'undefined' && self.location) {
+            // Web Workers and Service Workers
+            _return.baseUrl = self.location.href;
         }
+
+        return _return;
     }
 
     /**
@@ -587,4 +2795,73 @@ export class HttpClient {
     protected static encode(value: string) {
         return encodeURIComponent(value).replace(/%20/g, '+');
     }
+
+    /**
+     * Parses the given "Retry-After" header value given in delta-seconds or as
+     * an HTTP-date.
+     *
+     * @param value "Retry-After" header value
+     *
+     * @return Delay in milliseconds; undefined if invalid
+     * @since  v1.2.0
+     */
+    protected static parseRetryAfter(value: string) {
+        let _return: number;
+
+        value = value.trim();
+
+        if (/^\d+$/.test(value)) {
+            _return = (parseInt(value, 10) * 1000);
+        } else {
+            const timestamp = Date.parse(value);
+
+            if (!isNaN(timestamp)) {
+                _return = Math.max(0, timestamp - Date.now());
+            }
+        }
+
+        return _return;
+    }
+
+    /**
+     * Reads the given stream chunk by chunk. The stream is cancelled if the
+     * iteration is stopped early.
+     *
+     * @param stream Stream to be read
+     *
+     * @return Async iterable of chunks
+     * @since  v1.2.0
+     */
+    protected static async *readChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+        const reader = stream.getReader();
+        let isDone = false;
+
+        try {
+            while (!isDone) {
+                const chunk = await reader.read();
+                isDone = chunk.done;
+
+                if (!isDone) {
+                    yield chunk.value;
+                }
+            }
+        } finally {
+            if (!isDone) {
+                // Streams errored reject the cancellation as well
+                reader.cancel().catch(() => { /* Ignored */ });
+            }
+        }
+    }
+
+    /**
+     * Sets environment values for all instances, e.g. the base URL used to
+     * resolve relative URLs in server-side environments.
+     *
+     * @param environment Environment values
+     *
+     * @since v1.2.0
+     */
+    public static setDefaultEnvironment(environment: HttpClientEnvironment) {
+        HttpClient.defaultEnvironment = { ...HttpClient.defaultEnvironment, ...environment };
+    }
 }
@@ -0,0 +1,202 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+
+import { HttpCodec } from './http-client-interfaces';
+import { HttpFormCodec } from './http-form-codec';
+import { HttpJsonCodec } from './http-json-codec';
+import { HttpTextCodec } from './http-text-codec';
+
+/**
+ * Codec registered for a media type
+ */
+type HttpCodecRegistryEntry = {
+    codec: HttpCodec,
+    mediaType: string,
+    quality: number
+};
+
+/**
+ * Registry of body codecs keyed by media type. Media types registered are
+ * sent with their quality as the "Accept" header and responses are decoded
+ * with the codec of their content type, its structured syntax suffix (e.g.
+ * "+json") or a registered "type/*" wildcard.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpCodecRegistry {
+    /**
+     * Codecs registered in the order of registration
+     */
+    protected entries: HttpCodecRegistryEntry[] = [ ];
+
+    /**
+     * Constructor (HttpCodecRegistry)
+     *
+     * @param registerDefaults True to register the built-in JSON, Problem
+     *        Details JSON, form-urlencoded and plain text codecs
+     *
+     * @since v1.2.0
+     */
+    constructor(registerDefaults = true) {
+        if (registerDefaults) {
+            const jsonCodec = new HttpJsonCodec();
+
+            this.register('application/json', jsonCodec);
+            this.register('application/problem+json', jsonCodec);
+            this.register('application/x-www-form-urlencoded', new HttpFormCodec(), 0.5);
+            this.register('text/plain', new HttpTextCodec(), 0.5);
+        }
+    }
+
+    /**
+     * Returns the "Accept" header value listing all media types registered
+     * ordered by their quality.
+     *
+     * @return Header value; undefined if no codecs are registered
+     * @since  v1.2.0
+     */
+    public getAcceptHeader() {
+        const entries = this.entries.filter((entry: HttpCodecRegistryEntry) => entry.quality > 0);
+
+        // Array.prototype.sort() is not guaranteed to be stable for ES5
+        const sortedEntries = entries.map(
+            (entry: HttpCodecRegistryEntry, index: number) => ({ entry, index })
+        ).sort(
+            (a, b) => (b.entry.quality - a.entry.quality) || (a.index - b.index)
+        );
+
+        const mediaRanges = sortedEntries.map(
+            ({ entry }) => (
+                entry.quality < 1
+                ? `${entry.mediaType};q=${Math.round(entry.quality * 1000) / 1000}`
+                : entry.mediaType
+            )
+        );
+
+        return (mediaRanges.length > 0 ? mediaRanges.join(', ') : undefined);
+    }
+
+    /**
+     * Returns the codec for the given content type.
+     *
+     * @param contentType Content type including parameters
+     *
+     * @return Codec; undefined if no codec is registered for it
+     * @since  v1.2.0
+     */
+    public getCodec(contentType?: string) {
+        const entry = this.getEntry(contentType);
+        return (entry ? entry.codec : undefined);
+    }
+
+    /**
+     * Returns the codec and media type to encode request data with. Request
+     * data is form-urlencoded if no content type is given in the same way as
+     * by HTTP clients without codecs.
+     *
+     * @param contentType Content type of the request
+     *
+     * @return Codec and media type; undefined if no codec is registered
+     * @since  v1.2.0
+     */
+    public getEncoder(contentType?: string) {
+        const entry = this.getEntry(contentType ? contentType : 'application/x-www-form-urlencoded');
+        return (entry ? { codec: entry.codec, mediaType: entry.mediaType } : undefined);
+    }
+
+    /**
+     * Returns the registry entry matching the given content type.
+     *
+     * @param contentType Content type including parameters
+     *
+     * @return Registry entry; undefined if not found
+     * @since  v1.2.0
+     */
+    protected getEntry(contentType?: string) {
+        let _return: HttpCodecRegistryEntry;
+
+        const mediaType = (contentType ? contentType.split(';')[0].trim().toLowerCase() : '');
+        const mediaTypeData = /^([^/]+)\/(?:.*\+([^+]+)|.+)$/.exec(mediaType);
+
+        if (mediaTypeData) {
+            const candidates = [ mediaType ];
+
+            if (mediaTypeData[2]) {
+                candidates.push(`application/${mediaTypeData[2]}`);
+            }
+
+            candidates.push(`${mediaTypeData[1]}/*`);
+
+            for (const candidate of candidates) {
+                _return = this.entries.find((entry: HttpCodecRegistryEntry) => entry.mediaType === candidate);
+
+                if (_return) {
+                    break;
+                }
+            }
+        }
+
+        return _return;
+    }
+
+    /**
+     * Registers the codec for the given media type. An existing codec for the
+     * media type is replaced.
+     *
+     * @param mediaType Media type, e.g. "application/xml" or "text/*"
+     * @param codec Codec
+     * @param quality Quality sent in the "Accept" header between 0 and 1
+     *
+     * @return Codec registry instance
+     * @since  v1.2.0
+     */
+    public register(mediaType: string, codec: HttpCodec, quality = 1) {
+        mediaType = mediaType.trim().toLowerCase();
+        quality = Math.min(1, Math.max(0, quality));
+
+        const entry = this.entries.find((candidate: HttpCodecRegistryEntry) => candidate.mediaType === mediaType);
+
+        if (entry) {
+            entry.codec = codec;
+            entry.quality = quality;
+        } else {
+            this.entries.push({ codec, mediaType, quality });
+        }
+
+        return this;
+    }
+
+    /**
+     * Removes the codec registered for the given media type.
+     *
+     * @param mediaType Media type
+     *
+     * @return Codec registry instance
+     * @since  v1.2.0
+     */
+    public unregister(mediaType: string) {
+        mediaType = mediaType.trim().toLowerCase();
+        this.entries = this.entries.filter((entry: HttpCodecRegistryEntry) => entry.mediaType !== mediaType);
+
+        return this;
+    }
+}
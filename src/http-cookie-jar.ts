@@ -0,0 +1,330 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+
+import { HttpCookie } from './http-client-interfaces';
+
+/**
+ * Cookie jar storing cookies received with "Set-Cookie" headers according to
+ * RFC 6265 and returning the "Cookie" header for later requests. A jar may
+ * be shared by multiple clients and serialized as JSON.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpCookieJar {
+    /**
+     * Cookies stored
+     */
+    protected cookies: HttpCookie[];
+
+    /**
+     * Constructor (HttpCookieJar)
+     *
+     * @param cookies Cookies previously serialized
+     *
+     * @since v1.2.0
+     */
+    constructor(cookies: HttpCookie[] = [ ]) {
+        this.cookies = cookies.map((cookie: HttpCookie) => ({ ...cookie }));
+        this.removeExpired();
+    }
+
+    /**
+     * Removes all cookies.
+     *
+     * @since v1.2.0
+     */
+    public clear() {
+        this.cookies = [ ];
+    }
+
+    /**
+     * Returns the "Cookie" header value for a request to the given URL.
+     *
+     * @param url URL to be called
+     *
+     * @return Header value; undefined if no cookies match
+     * @since  v1.2.0
+     */
+    public getCookieHeader(url: string) {
+        const cookies = this.getCookies(url);
+
+        return (
+            cookies.length > 0
+            ? cookies.map((cookie: HttpCookie) => `${cookie.name}=${cookie.value}`).join('; ')
+            : undefined
+        );
+    }
+
+    /**
+     * Returns the cookies to be sent with a request to the given URL ordered
+     * by path length and creation time. All cookies are returned if no URL
+     * is given.
+     *
+     * @param url URL to be called
+     *
+     * @return List of cookies
+     * @since  v1.2.0
+     */
+    public getCookies(url?: string) {
+        this.removeExpired();
+
+        if (url === undefined) {
+            return this.cookies.map((cookie: HttpCookie) => ({ ...cookie }));
+        }
+
+        const urlData = new URL(url);
+        const host = urlData.hostname.toLowerCase();
+        const isSecure = (urlData.protocol === 'https:' || urlData.protocol === 'wss:');
+
+        const cookies = this.cookies.filter(
+            (cookie: HttpCookie) => (
+                (cookie.hostOnly ? host === cookie.domain : HttpCookieJar.isDomainMatch(host, cookie.domain))
+                && HttpCookieJar.isPathMatch(urlData.pathname, cookie.path)
+                && (isSecure || (!cookie.secure))
+            )
+        );
+
+        return cookies.sort(
+            (a: HttpCookie, b: HttpCookie) => (b.path.length - a.path.length) || (a.creation - b.creation)
+        ).map((cookie: HttpCookie) => ({ ...cookie }));
+    }
+
+    /**
+     * Removes all expired cookies.
+     *
+     * @since v1.2.0
+     */
+    protected removeExpired() {
+        const now = Date.now();
+
+        this.cookies = this.cookies.filter(
+            (cookie: HttpCookie) => (cookie.expires === undefined || cookie.expires === null || cookie.expires > now)
+        );
+    }
+
+    /**
+     * Stores the cookie of the given "Set-Cookie" header value received for
+     * the given URL. Invalid cookies and cookies for other domains are
+     * ignored.
+     *
+     * @param url URL the header has been received for
+     * @param value "Set-Cookie" header value
+     *
+     * @return True if stored or removed as expired
+     * @since  v1.2.0
+     */
+    public setCookie(url: string, value: string) {
+        const urlData = new URL(url);
+        const host = urlData.hostname.toLowerCase();
+        const cookie = HttpCookieJar.parseSetCookie(value, urlData.pathname);
+
+        if (!cookie) {
+            return false;
+        }
+
+        if (cookie.domain === '') {
+            cookie.domain = host;
+            cookie.hostOnly = true;
+        } else if (
+            (!HttpCookieJar.isDomainMatch(host, cookie.domain))
+            // Cookies for top-level domains are rejected
+            || (cookie.domain !== host && cookie.domain.indexOf('.') < 0)
+        ) {
+            return false;
+        }
+
+        const index = this.cookies.findIndex(
+            (entry: HttpCookie) => (entry.name === cookie.name && entry.domain === cookie.domain && entry.path === cookie.path)
+        );
+
+        if (index > -1) {
+            cookie.creation = this.cookies[index].creation;
+            this.cookies.splice(index, 1);
+        }
+
+        if (cookie.expires === undefined || cookie.expires > Date.now()) {
+            this.cookies.push(cookie);
+        }
+
+        return true;
+    }
+
+    /**
+     * Stores the cookies of all given "Set-Cookie" header values received
+     * for the given URL.
+     *
+     * @param url URL the headers have been received for
+     * @param values "Set-Cookie" header values
+     *
+     * @since v1.2.0
+     */
+    public setCookies(url: string, values: string[]) {
+        for (const value of values) {
+            this.setCookie(url, value);
+        }
+    }
+
+    /**
+     * Returns all cookies not expired for JSON serialization. Session cookies
+     * without an expiry date are included.
+     *
+     * @return List of cookies
+     * @since  v1.2.0
+     */
+    public toJSON() {
+        return this.getCookies();
+    }
+
+    /**
+     * Returns a cookie jar containing the cookies of the given JSON string or
+     * list of cookies previously serialized.
+     *
+     * @param data JSON string or list of cookies
+     *
+     * @return Cookie jar
+     * @since  v1.2.0
+     */
+    public static fromJSON(data: HttpCookie[] | string) {
+        return new HttpCookieJar(typeof data == 'string' ? JSON.parse(data) as HttpCookie[] : data);
+    }
+
+    /**
+     * Returns true if the given host matches the cookie domain.
+     *
+     * @param host Request host
+     * @param domain Cookie domain
+     *
+     * @return True if matching
+     * @since  v1.2.0
+     */
+    protected static isDomainMatch(host: string, domain: string) {
+        if (host === domain) {
+            return true;
+        }
+
+        // IP addresses only match themselves
+        const isIpAddress = ((/^\d+(\.\d+){3}$/).test(host) || host.indexOf(':') > -1);
+
+        return (
+            (!isIpAddress)
+            && host.length > domain.length
+            && host.slice(-domain.length) === domain
+            && host.charAt(host.length - domain.length - 1) === '.'
+        );
+    }
+
+    /**
+     * Returns true if the given request path matches the cookie path.
+     *
+     * @param path Request path
+     * @param cookiePath Cookie path
+     *
+     * @return True if matching
+     * @since  v1.2.0
+     */
+    protected static isPathMatch(path: string, cookiePath: string) {
+        return (
+            path === cookiePath
+            || (
+                path.slice(0, cookiePath.length) === cookiePath
+                && (cookiePath.slice(-1) === '/' || path.charAt(cookiePath.length) === '/')
+            )
+        );
+    }
+
+    /**
+     * Parses the given "Set-Cookie" header value. The domain is empty if not
+     * given as an attribute.
+     *
+     * @param value "Set-Cookie" header value
+     * @param requestPath Path of the request URL
+     *
+     * @return Cookie; undefined if invalid
+     * @since  v1.2.0
+     */
+    protected static parseSetCookie(value: string, requestPath: string) {
+        const parts = value.split(';');
+        const pair = parts.shift();
+        const index = pair.indexOf('=');
+
+        if (index < 0) {
+            return undefined;
+        }
+
+        const name = pair.slice(0, index).trim();
+
+        if (!name) {
+            return undefined;
+        }
+
+        // The default path is the directory of the request path
+        const lastSlashIndex = requestPath.lastIndexOf('/');
+        const defaultPath = (lastSlashIndex > 0 ? requestPath.slice(0, lastSlashIndex) : '/');
+
+        const _return: HttpCookie = {
+            creation: Date.now(),
+            domain: '',
+            hostOnly: false,
+            httpOnly: false,
+            name,
+            path: defaultPath,
+            secure: false,
+            value: pair.slice(index + 1).trim()
+        };
+
+        let maxAge: number;
+
+        for (const part of parts) {
+            const attributeIndex = part.indexOf('=');
+
+            const attribute = (attributeIndex < 0 ? part : part.slice(0, attributeIndex)).trim().toLowerCase();
+            const attributeValue = (attributeIndex < 0 ? '' : part.slice(attributeIndex + 1).trim());
+
+            if (attribute === 'domain' && attributeValue) {
+                _return.domain = attributeValue.replace(/^\./, '').toLowerCase();
+            } else if (attribute === 'expires') {
+                const expires = Date.parse(attributeValue);
+
+                if (!isNaN(expires)) {
+                    _return.expires = expires;
+                }
+            } else if (attribute === 'httponly') {
+                _return.httpOnly = true;
+            } else if (attribute === 'max-age' && (/^-?\d+$/).test(attributeValue)) {
+                maxAge = parseInt(attributeValue, 10);
+            } else if (attribute === 'path') {
+                _return.path = (attributeValue.charAt(0) === '/' ? attributeValue : defaultPath);
+            } else if (attribute === 'samesite' && (/^(lax|none|strict)$/i).test(attributeValue)) {
+                _return.sameSite = attributeValue.toLowerCase() as HttpCookie['sameSite'];
+            } else if (attribute === 'secure') {
+                _return.secure = true;
+            }
+        }
+
+        // "Max-Age" takes precedence over "Expires"
+        if (maxAge !== undefined) {
+            _return.expires = (maxAge > 0 ? _return.creation + (maxAge * 1000) : 0);
+        }
+
+        return _return;
+    }
+}
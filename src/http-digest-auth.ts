@@ -0,0 +1,528 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+/* eslint-disable no-bitwise */
+
+import { HttpDigestAuthChallenge } from './http-client-interfaces';
+
+/**
+ * Authentication challenge or parameter list parsed
+ */
+type HttpAuthParams = {
+    params: { [key: string]: string },
+    scheme: string
+};
+
+/**
+ * State of HTTP Digest authentication (RFC 7616) for a server. The nonce
+ * received is reused with an increasing nonce count until the server reports
+ * it stale.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpDigestAuth {
+    /**
+     * Algorithms supported in the order of preference
+     */
+    public static readonly ALGORITHMS = [ 'SHA-256', 'SHA-256-sess', 'MD5', 'MD5-sess' ];
+    /**
+     * MD5 left rotation amounts per round
+     */
+    protected static readonly MD5_SHIFTS = [ 7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21 ];
+    /**
+     * SHA-256 round constants
+     */
+    protected static readonly SHA256_CONSTANTS = [
+        0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+        0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+        0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+        0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+        0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+        0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+        0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+        0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+    ];
+
+    /**
+     * Challenge answered
+     */
+    protected challenge: HttpDigestAuthChallenge;
+    /**
+     * Client nonce used for the current challenge
+     */
+    protected cnonce: string;
+    /**
+     * Number of requests sent with the current nonce
+     */
+    protected nonceCount: number;
+
+    /**
+     * Constructor (HttpDigestAuth)
+     *
+     * @param challenge Challenge to be answered
+     *
+     * @since v1.2.0
+     */
+    constructor(challenge: HttpDigestAuthChallenge) {
+        this.setChallenge(challenge);
+    }
+
+    /**
+     * Returns the "Authorization" header value for the given request.
+     *
+     * @param method HTTP method
+     * @param uri Request target (path and query)
+     * @param username Username
+     * @param password Password
+     *
+     * @return Header value
+     * @since  v1.2.0
+     */
+    public getAuthorization(method: string, uri: string, username: string, password: string) {
+        const challenge = this.challenge;
+        const algorithm = challenge.algorithm;
+        const hash = (algorithm.toUpperCase().indexOf('SHA-256') === 0 ? HttpDigestAuth.sha256 : HttpDigestAuth.md5);
+
+        this.nonceCount++;
+        const nc = ('0000000' + this.nonceCount.toString(16)).slice(-8);
+
+        let ha1 = hash(`${username}:${challenge.realm}:${password}`);
+
+        if (/-sess$/i.test(algorithm)) {
+            ha1 = hash(`${ha1}:${challenge.nonce}:${this.cnonce}`);
+        }
+
+        const ha2 = hash(`${method.toUpperCase()}:${uri}`);
+
+        const response = (
+            challenge.qop
+            ? hash(`${ha1}:${challenge.nonce}:${nc}:${this.cnonce}:${challenge.qop}:${ha2}`)
+            : hash(`${ha1}:${challenge.nonce}:${ha2}`)
+        );
+
+        const params = [
+            `username=${HttpDigestAuth.quote(challenge.userhash ? hash(`${username}:${challenge.realm}`) : username)}`,
+            `realm=${HttpDigestAuth.quote(challenge.realm)}`,
+            `uri=${HttpDigestAuth.quote(uri)}`,
+            `algorithm=${algorithm}`,
+            `nonce=${HttpDigestAuth.quote(challenge.nonce)}`
+        ];
+
+        if (challenge.qop) {
+            params.push(`nc=${nc}`, `cnonce=${HttpDigestAuth.quote(this.cnonce)}`, `qop=${challenge.qop}`);
+        }
+
+        params.push(`response=${HttpDigestAuth.quote(response)}`);
+
+        if (challenge.opaque !== undefined) {
+            params.push(`opaque=${HttpDigestAuth.quote(challenge.opaque)}`);
+        }
+
+        if (challenge.userhash) {
+            params.push('userhash=true');
+        }
+
+        return `Digest ${params.join(', ')}`;
+    }
+
+    /**
+     * Sets the challenge to be answered and resets the nonce count.
+     *
+     * @param challenge Challenge to be answered
+     *
+     * @since v1.2.0
+     */
+    public setChallenge(challenge: HttpDigestAuthChallenge) {
+        this.challenge = challenge;
+        this.cnonce = HttpDigestAuth.newClientNonce();
+        this.nonceCount = 0;
+    }
+
+    /**
+     * Continues with the next nonce given in an "Authentication-Info" header
+     * if any.
+     *
+     * @param value "Authentication-Info" header value
+     *
+     * @since v1.2.0
+     */
+    public updateFromAuthenticationInfo(value: string) {
+        const params = HttpDigestAuth.parseAuthParams(value);
+
+        if (params.length > 0 && params[0].params.nextnonce) {
+            this.setChallenge({ ...this.challenge, nonce: params[0].params.nextnonce, stale: false });
+        }
+    }
+
+    /**
+     * Returns the UTF-8 encoded bytes of the given string.
+     *
+     * @param value String
+     *
+     * @return UTF-8 encoded bytes
+     * @since  v1.2.0
+     */
+    protected static encodeUtf8(value: string) {
+        if (typeof TextEncoder != 'undefined') {
+            return new TextEncoder().encode(value);
+        }
+
+        const encoded = unescape(encodeURIComponent(value));
+        const _return = new Uint8Array(encoded.length);
+
+        for (let i = 0; i < encoded.length; i++) {
+            _return[i] = encoded.charCodeAt(i);
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns the hexadecimal representation of the given 32 bit words.
+     *
+     * @param words List of 32 bit words
+     * @param littleEndian True to output the bytes of each word in little
+     *        endian order
+     *
+     * @return Hexadecimal string
+     * @since  v1.2.0
+     */
+    protected static hex(words: number[], littleEndian: boolean) {
+        let _return = '';
+
+        for (const word of words) {
+            for (let i = 0; i < 4; i++) {
+                const byte = (word >>> (littleEndian ? i * 8 : (3 - i) * 8)) & 0xff;
+                _return += ('0' + byte.toString(16)).slice(-2);
+            }
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns the MD5 digest of the given string in hexadecimal
+     * representation.
+     *
+     * @param value String
+     *
+     * @return MD5 digest
+     * @since  v1.2.0
+     */
+    protected static md5(value: string) {
+        const bytes = HttpDigestAuth.encodeUtf8(value);
+        const words = HttpDigestAuth.pad(bytes, true);
+
+        const state = [ 0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476 ];
+
+        for (let offset = 0; offset < words.length; offset += 16) {
+            let a = state[0];
+            let b = state[1];
+            let c = state[2];
+            let d = state[3];
+
+            for (let i = 0; i < 64; i++) {
+                let f: number;
+                let g: number;
+
+                if (i < 16) {
+                    f = (b & c) | (~b & d);
+                    g = i;
+                } else if (i < 32) {
+                    f = (d & b) | (~d & c);
+                    g = ((5 * i) + 1) % 16;
+                } else if (i < 48) {
+                    f = b ^ c ^ d;
+                    g = ((3 * i) + 5) % 16;
+                } else {
+                    f = c ^ (b | ~d);
+                    g = (7 * i) % 16;
+                }
+
+                const shift = HttpDigestAuth.MD5_SHIFTS[((i >> 4) * 4) + (i % 4)];
+                const sum = (a + f + (Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0) + words[offset + g]) | 0;
+
+                a = d;
+                d = c;
+                c = b;
+                b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+            }
+
+            state[0] = (state[0] + a) | 0;
+            state[1] = (state[1] + b) | 0;
+            state[2] = (state[2] + c) | 0;
+            state[3] = (state[3] + d) | 0;
+        }
+
+        return HttpDigestAuth.hex(state, true);
+    }
+
+    /**
+     * Returns a new random client nonce.
+     *
+     * @return Client nonce
+     * @since  v1.2.0
+     */
+    protected static newClientNonce() {
+        const bytes = new Uint8Array(16);
+
+        if (typeof crypto != 'undefined' && crypto.getRandomValues) {
+            crypto.getRandomValues(bytes);
+        } else {
+            for (let i = 0; i < bytes.length; i++) {
+                bytes[i] = Math.floor(Math.random() * 256);
+            }
+        }
+
+        let _return = '';
+
+        for (let i = 0; i < bytes.length; i++) {
+            _return += ('0' + bytes[i].toString(16)).slice(-2);
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns the given bytes padded as required by MD5 and SHA-256 as a list
+     * of 32 bit words.
+     *
+     * @param bytes Bytes to be padded
+     * @param littleEndian True for the MD5 little endian byte order
+     *
+     * @return List of 32 bit words
+     * @since  v1.2.0
+     */
+    protected static pad(bytes: Uint8Array, littleEndian: boolean) {
+        const length = bytes.length;
+        const _return = [ ] as number[];
+
+        for (let i = 0; i < (((length + 8) >>> 6) + 1) * 16; i++) {
+            _return.push(0);
+        }
+
+        const setByte = (index: number, byte: number) => {
+            _return[index >> 2] |= byte << (littleEndian ? (index % 4) * 8 : (3 - (index % 4)) * 8);
+        };
+
+        for (let i = 0; i < length; i++) {
+            setByte(i, bytes[i]);
+        }
+
+        setByte(length, 0x80);
+
+        const bitLengthLow = (length << 3) >>> 0;
+        const bitLengthHigh = Math.floor(length / 0x20000000);
+
+        if (littleEndian) {
+            _return[_return.length - 2] = bitLengthLow;
+            _return[_return.length - 1] = bitLengthHigh;
+        } else {
+            _return[_return.length - 2] = bitLengthHigh;
+            _return[_return.length - 1] = bitLengthLow;
+        }
+
+        return _return;
+    }
+
+    /**
+     * Parses the given authentication header value into challenges with their
+     * parameters. Parameters not preceded by an authentication scheme are
+     * returned with an empty scheme.
+     *
+     * @param value Header value
+     *
+     * @return List of challenges
+     * @since  v1.2.0
+     */
+    protected static parseAuthParams(value: string) {
+        const _return = [ ] as HttpAuthParams[];
+        let current: HttpAuthParams;
+        let position = 0;
+
+        while (position < value.length) {
+            const tokenMatch = /^[\s,]*([^\s,=]+)/.exec(value.slice(position));
+
+            if (!tokenMatch) {
+                break;
+            }
+
+            position += tokenMatch[0].length;
+
+            const paramMatch = /^\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]*))/.exec(value.slice(position));
+
+            if (paramMatch) {
+                position += paramMatch[0].length;
+
+                if (!current) {
+                    current = { params: { }, scheme: '' };
+                    _return.push(current);
+                }
+
+                current.params[tokenMatch[1].toLowerCase()] = (
+                    paramMatch[1] === undefined ? paramMatch[2] : paramMatch[1].replace(/\\(.)/g, '$1')
+                );
+            } else {
+                current = { params: { }, scheme: tokenMatch[1].toLowerCase() };
+                _return.push(current);
+            }
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns the preferred Digest challenge supported from the given
+     * "WWW-Authenticate" header value.
+     *
+     * @param value "WWW-Authenticate" header value
+     *
+     * @return Digest challenge; undefined if not supported
+     * @since  v1.2.0
+     */
+    public static parseChallenge(value: string) {
+        let _return: HttpDigestAuthChallenge;
+        let preference = HttpDigestAuth.ALGORITHMS.length;
+
+        if (value) {
+            for (const challenge of HttpDigestAuth.parseAuthParams(value)) {
+                const params = challenge.params;
+
+                const algorithmIndex = HttpDigestAuth.ALGORITHMS.map(
+                    (algorithm: string) => algorithm.toLowerCase()
+                ).indexOf(params.algorithm ? params.algorithm.toLowerCase() : 'md5');
+
+                const qopList = (
+                    params.qop === undefined
+                    ? undefined
+                    : params.qop.split(',').map((qop: string) => qop.trim().toLowerCase())
+                );
+
+                if (
+                    challenge.scheme === 'digest'
+                    && params.nonce !== undefined
+                    && params.realm !== undefined
+                    && algorithmIndex > -1
+                    && algorithmIndex < preference
+                    && (qopList === undefined || qopList.indexOf('auth') > -1)
+                ) {
+                    _return = {
+                        algorithm: HttpDigestAuth.ALGORITHMS[algorithmIndex],
+                        nonce: params.nonce,
+                        opaque: params.opaque,
+                        qop: (qopList === undefined ? undefined : 'auth'),
+                        realm: params.realm,
+                        stale: (params.stale !== undefined && params.stale.toLowerCase() === 'true'),
+                        userhash: (params.userhash !== undefined && params.userhash.toLowerCase() === 'true')
+                    };
+
+                    preference = algorithmIndex;
+                }
+            }
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns the given value as a quoted string.
+     *
+     * @param value Value to be quoted
+     *
+     * @return Quoted string
+     * @since  v1.2.0
+     */
+    protected static quote(value: string) {
+        return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+    }
+
+    /**
+     * Returns the SHA-256 digest of the given string in hexadecimal
+     * representation.
+     *
+     * @param value String
+     *
+     * @return SHA-256 digest
+     * @since  v1.2.0
+     */
+    protected static sha256(value: string) {
+        const bytes = HttpDigestAuth.encodeUtf8(value);
+        const words = HttpDigestAuth.pad(bytes, false);
+
+        const state = [
+            0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+        ];
+
+        const rotate = (word: number, bits: number) => (word >>> bits) | (word << (32 - bits));
+        const schedule = [ ] as number[];
+
+        for (let offset = 0; offset < words.length; offset += 16) {
+            for (let i = 0; i < 64; i++) {
+                if (i < 16) {
+                    schedule[i] = words[offset + i] | 0;
+                } else {
+                    const s0 = rotate(schedule[i - 15], 7) ^ rotate(schedule[i - 15], 18) ^ (schedule[i - 15] >>> 3);
+                    const s1 = rotate(schedule[i - 2], 17) ^ rotate(schedule[i - 2], 19) ^ (schedule[i - 2] >>> 10);
+
+                    schedule[i] = (schedule[i - 16] + s0 + schedule[i - 7] + s1) | 0;
+                }
+            }
+
+            let a = state[0];
+            let b = state[1];
+            let c = state[2];
+            let d = state[3];
+            let e = state[4];
+            let f = state[5];
+            let g = state[6];
+            let h = state[7];
+
+            for (let i = 0; i < 64; i++) {
+                const s1 = rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25);
+                const choice = (e & f) ^ (~e & g);
+                const temp1 = (h + s1 + choice + HttpDigestAuth.SHA256_CONSTANTS[i] + schedule[i]) | 0;
+                const s0 = rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22);
+                const majority = (a & b) ^ (a & c) ^ (b & c);
+                const temp2 = (s0 + majority) | 0;
+
+                h = g;
+                g = f;
+                f = e;
+                e = (d + temp1) | 0;
+                d = c;
+                c = b;
+                b = a;
+                a = (temp1 + temp2) | 0;
+            }
+
+            state[0] = (state[0] + a) | 0;
+            state[1] = (state[1] + b) | 0;
+            state[2] = (state[2] + c) | 0;
+            state[3] = (state[3] + d) | 0;
+            state[4] = (state[4] + e) | 0;
+            state[5] = (state[5] + f) | 0;
+            state[6] = (state[6] + g) | 0;
+            state[7] = (state[7] + h) | 0;
+        }
+
+        return HttpDigestAuth.hex(state, false);
+    }
+}
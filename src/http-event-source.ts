@@ -0,0 +1,497 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+import { DecodeError, NetworkError, TimeoutError } from './http-client-errors';
+import {
+    HttpClientResponse,
+    HttpEventSourceEvent,
+    HttpEventSourceListener,
+    HttpEventSourceOptions,
+    HttpEventSourceState
+} from './http-client-interfaces';
+
+import { HttpClient } from './http-client';
+
+/**
+ * Event being parsed from the event stream
+ */
+type HttpEventSourceParserState = {
+    data: string[],
+    id: string,
+    type: string
+};
+
+/**
+ * Server-Sent Events client reading "text/event-stream" responses with the
+ * URL, headers and authentication of the given HTTP client. Events are
+ * delivered to the listeners registered and to async iterators.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpEventSource implements AsyncIterable<HttpEventSourceEvent> {
+    /**
+     * Default reconnection delay in milliseconds
+     */
+    public static readonly DEFAULT_RETRY_DELAY = 3000;
+
+    /**
+     * HTTP client used to connect
+     */
+    protected client: HttpClient;
+    /**
+     * Abort controller of the connection while open
+     */
+    protected controller: AbortController;
+    /**
+     * ID of the last event received sent as "Last-Event-ID" on reconnection
+     */
+    public lastEventId: string;
+    /**
+     * Listeners registered by event type
+     */
+    protected listeners: { [key: string]: HttpEventSourceListener[] } = { };
+    /**
+     * Event source options
+     */
+    protected options: HttpEventSourceOptions;
+    /**
+     * Connection state
+     */
+    public readyState: HttpEventSourceState = 'closed';
+    /**
+     * Reconnection delay in milliseconds
+     */
+    protected retryDelay: number;
+
+    /**
+     * Constructor (HttpEventSource)
+     *
+     * @param client HTTP client used to connect
+     * @param options Event source options
+     *
+     * @since v1.2.0
+     */
+    constructor(client: HttpClient, options: HttpEventSourceOptions = { }) {
+        this.client = client;
+        this.lastEventId = (options.lastEventId ? options.lastEventId : '');
+        this.options = options;
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+        this.retryDelay = (options.retryDelay === undefined ? this.instanceClass.DEFAULT_RETRY_DELAY : options.retryDelay);
+    }
+
+    /**
+     * Returns the class object of this instance.
+     *
+     * @return Class object
+     * @since  v1.2.0
+     */
+    protected get instanceClass() {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-return
+        return Object.getPrototypeOf(this).constructor;
+    }
+
+    /**
+     * Connects and returns an async iterator of all events received.
+     * Leaving the iteration closes the connection.
+     *
+     * @return Async iterator of events
+     * @since  v1.2.0
+     */
+    public [Symbol.asyncIterator]() {
+        return this.read();
+    }
+
+    /**
+     * Closes the connection and stops reconnecting.
+     *
+     * @since v1.2.0
+     */
+    public close() {
+        if (this.controller) {
+            this.controller.abort();
+        }
+    }
+
+    /**
+     * Requests the event stream.
+     *
+     * @param signal Abort signal for the connection
+     *
+     * @return Response data
+     * @since  v1.2.0
+     */
+    protected async connect(signal: AbortSignal) {
+        const headers = new Headers(this.options.headers);
+        headers.set('accept', 'text/event-stream');
+
+        if (this.lastEventId) {
+            headers.set('last-event-id', this.lastEventId);
+        }
+
+        return await this.client.request<AsyncIterable<Uint8Array>>(
+            'GET',
+            { cache: 'no-store', headers, params: this.options.params, signal, stream: true, throwErrors: true }
+        );
+    }
+
+    /**
+     * Calls all listeners registered for the type of the given event.
+     * Exceptions thrown by listeners are rethrown asynchronously like for DOM
+     * event listeners to keep the connection open.
+     *
+     * @param event Event received
+     *
+     * @since v1.2.0
+     */
+    protected dispatch(event: HttpEventSourceEvent) {
+        if (event.type in this.listeners) {
+            for (const listener of this.listeners[event.type].slice()) {
+                try {
+                    listener(event);
+                } catch (handledException) {
+                    this.client.environment.timers.setTimeout(() => { throw handledException; }, 0);
+                }
+            }
+        }
+    }
+
+    /**
+     * Removes a listener registered for the given event type.
+     *
+     * @param type Event type
+     * @param listener Listener
+     *
+     * @return Event source instance
+     * @since  v1.2.0
+     */
+    public off(type: string, listener: HttpEventSourceListener) {
+        if (type in this.listeners) {
+            const index = this.listeners[type].indexOf(listener);
+
+            if (index > -1) {
+                this.listeners[type].splice(index, 1);
+            }
+        }
+
+        return this;
+    }
+
+    /**
+     * Registers a listener for events of the given type. Unnamed events are
+     * of the type "message".
+     *
+     * @param type Event type
+     * @param listener Listener
+     *
+     * @return Event source instance
+     * @since  v1.2.0
+     */
+    public on(type: string, listener: HttpEventSourceListener) {
+        if (!(type in this.listeners)) {
+            this.listeners[type] = [ ];
+        }
+
+        this.listeners[type].push(listener);
+        return this;
+    }
+
+    /**
+     * Connects and delivers events to the listeners registered until the
+     * event source is closed or fails permanently.
+     *
+     * @return Promise resolved once closed
+     * @since  v1.2.0
+     */
+    public async open() {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        for await (const _event of this.read()) {
+            // Events are dispatched while reading
+        }
+    }
+
+    /**
+     * Parses the given line of the event stream and returns the event
+     * completed by an empty line.
+     *
+     * @param line Line without the line break
+     * @param state Event being parsed
+     *
+     * @return Event completed; undefined otherwise
+     * @since  v1.2.0
+     */
+    protected parseLine(line: string, state: HttpEventSourceParserState) {
+        let _return: HttpEventSourceEvent;
+
+        if (line === '') {
+            if (state.id !== undefined) {
+                this.lastEventId = state.id;
+            }
+
+            if (state.data.length > 0) {
+                // eslint-disable-next-line sort-keys
+                _return = { type: (state.type ? state.type : 'message'), data: state.data.join('\n'), id: this.lastEventId };
+            }
+
+            state.data = [ ];
+            state.id = undefined;
+            state.type = '';
+        } else if (line[0] !== ':') {
+            const index = line.indexOf(':');
+
+            const field = (index < 0 ? line : line.slice(0, index));
+            let value = (index < 0 ? '' : line.slice(index + 1));
+
+            if (value[0] === ' ') {
+                value = value.slice(1);
+            }
+
+            if (field === 'data') {
+                state.data.push(value);
+            } else if (field === 'event') {
+                state.type = value;
+            } else if (field === 'id' && value.indexOf('\u0000') < 0) {
+                state.id = value;
+            } else if (field === 'retry' && (/^\d+$/).test(value)) {
+                this.retryDelay = parseInt(value, 10);
+            }
+        }
+
+        return _return;
+    }
+
+    /**
+     * Connects, reconnects after errors and yields all events received until
+     * closed.
+     *
+     * @return Async iterator of events
+     * @since  v1.2.0
+     */
+    protected async *read(): AsyncGenerator<HttpEventSourceEvent> {
+        if (this.controller) {
+            throw new Error('Event source is already open');
+        }
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        const signal = this.options.signal;
+
+        this.controller = controller;
+
+        if (signal) {
+            if (signal.aborted) {
+                controller.abort();
+            } else {
+                signal.addEventListener('abort', onAbort);
+            }
+        }
+
+        try {
+            while (!controller.signal.aborted) {
+                // Each connection is aborted separately to release its listeners
+                const connectionController = new AbortController();
+                const onClose = () => connectionController.abort();
+
+                controller.signal.addEventListener('abort', onClose);
+
+                let isReconnecting: boolean;
+
+                try {
+                    isReconnecting = yield* this.readConnection(connectionController.signal);
+                } finally {
+                    connectionController.abort();
+                    controller.signal.removeEventListener('abort', onClose);
+                }
+
+                if ((!isReconnecting) || controller.signal.aborted) {
+                    break;
+                }
+
+                this.readyState = 'connecting';
+                await this.wait(controller.signal);
+            }
+        } finally {
+            // Leaving the iteration early cancels the stream being read
+            controller.abort();
+
+            if (signal) {
+                signal.removeEventListener('abort', onAbort);
+            }
+
+            this.controller = undefined;
+            this.readyState = 'closed';
+        }
+    }
+
+    /**
+     * Connects once and yields all events received.
+     *
+     * @param signal Abort signal for the connection
+     *
+     * @return Async iterator of events returning true to reconnect
+     * @since  v1.2.0
+     */
+    protected async *readConnection(signal: AbortSignal): AsyncGenerator<HttpEventSourceEvent, boolean> {
+        let response: HttpClientResponse<AsyncIterable<Uint8Array>>;
+        this.readyState = 'connecting';
+
+        try {
+            response = await this.connect(signal);
+        } catch (handledException) {
+            if (signal.aborted) {
+                return false;
+            }
+
+            if (
+                this.options.reconnect === false
+                || ((!(handledException instanceof NetworkError)) && (!(handledException instanceof TimeoutError)))
+            ) {
+                throw handledException;
+            }
+
+            this.reportError(handledException);
+            return true;
+        }
+
+        // The server requests the client to stop reconnecting
+        if (response.code === 204) {
+            return false;
+        }
+
+        if (!(/^text\/event-stream(;|$)/i).test(response.headers.content_type as string)) {
+            throw new DecodeError('Response received is not an event stream');
+        }
+
+        this.readyState = 'open';
+
+        if (this.options.onOpen) {
+            this.options.onOpen(response);
+        }
+
+        try {
+            for await (const event of this.readEvents(response.body)) {
+                this.dispatch(event);
+                yield event;
+            }
+        } catch (handledException) {
+            if (signal.aborted) {
+                return false;
+            }
+
+            this.reportError(handledException as Error);
+        }
+
+        return (this.options.reconnect !== false);
+    }
+
+    /**
+     * Parses the given event stream incrementally and yields all events
+     * completed.
+     *
+     * @param body Event stream chunks
+     *
+     * @return Async iterator of events
+     * @since  v1.2.0
+     */
+    protected async *readEvents(body: AsyncIterable<Uint8Array>): AsyncGenerator<HttpEventSourceEvent> {
+        const decoder = new TextDecoder('utf-8');
+        const state: HttpEventSourceParserState = { data: [ ], id: undefined, type: '' };
+
+        let buffer = '';
+        let isStart = true;
+
+        for await (const chunk of body) {
+            buffer += decoder.decode(chunk, { stream: true });
+
+            if (isStart && buffer.length > 0) {
+                if (buffer[0] === '\uFEFF') {
+                    buffer = buffer.slice(1);
+                }
+
+                isStart = false;
+            }
+
+            const lineBreakRegExp = /\r\n|\r|\n/g;
+            let lineBreak: RegExpExecArray;
+            let position = 0;
+
+            while ((lineBreak = lineBreakRegExp.exec(buffer)) !== null) {
+                // "\r" at the end might be followed by "\n" in the next chunk
+                if (lineBreak[0] === '\r' && lineBreakRegExp.lastIndex === buffer.length) {
+                    break;
+                }
+
+                const event = this.parseLine(buffer.slice(position, lineBreak.index), state);
+                position = lineBreakRegExp.lastIndex;
+
+                if (event) {
+                    yield event;
+                }
+            }
+
+            buffer = buffer.slice(position);
+        }
+    }
+
+    /**
+     * Reports an error the event source reconnects after.
+     *
+     * @param error Error occurred
+     *
+     * @since v1.2.0
+     */
+    protected reportError(error: Error) {
+        if (this.options.onError) {
+            this.options.onError(error);
+        }
+    }
+
+    /**
+     * Returns a promise resolved after the reconnection delay or as soon as
+     * the event source is closed. The timers of the client are used.
+     *
+     * @param signal Abort signal of the event source
+     *
+     * @return Promise resolved after the delay
+     * @since  v1.2.0
+     */
+    protected wait(signal: AbortSignal) {
+        return new Promise<void>(
+            (resolve: () => void) => {
+                const timers = this.client.environment.timers;
+
+                const onAbort = () => {
+                    timers.clearTimeout(timeoutId);
+                    resolve();
+                };
+
+                const timeoutId = timers.setTimeout(
+                    () => {
+                        signal.removeEventListener('abort', onAbort);
+                        resolve();
+                    },
+                    this.retryDelay
+                );
+
+                signal.addEventListener('abort', onAbort);
+            }
+        );
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+
+import { HttpClientQueryEncoding, HttpCodec, MapObject } from './http-client-interfaces';
+
+import { DecodeError } from './http-client-errors';
+import { HttpQuerySerializer } from './http-query-serializer';
+
+/**
+ * Codec for "application/x-www-form-urlencoded" bodies. Request data is
+ * encoded like query parameters of HTTP clients with the query encoding
+ * given. Decoded bodies contain arrays for repeated keys, so data encoded
+ * with the "repeat" array format is decoded as sent.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpFormCodec implements HttpCodec {
+    /**
+     * Serializer of the request data encoded
+     */
+    protected serializer: HttpQuerySerializer;
+
+    /**
+     * Constructor (HttpFormCodec)
+     *
+     * @param queryEncoding Encoding of request data; values not given are
+     *        taken from the default query encoding
+     *
+     * @since v1.2.0
+     */
+    constructor(queryEncoding?: HttpClientQueryEncoding) {
+        this.serializer = new HttpQuerySerializer(queryEncoding);
+    }
+
+    /**
+     * Decodes the form-urlencoded body of the given response.
+     *
+     * @param response Response received
+     *
+     * @return Decoded body
+     * @since  v1.2.0
+     */
+    public async decode(response: Response) {
+        const rawBody = await response.text();
+        const _return = { } as MapObject;
+
+        for (const param of rawBody.split('&')) {
+            if (!param) {
+                continue;
+            }
+
+            const index = param.indexOf('=');
+            let key: string;
+            let value: string;
+
+            try {
+                key = HttpFormCodec.decode(index < 0 ? param : param.slice(0, index));
+                value = (index < 0 ? '' : HttpFormCodec.decode(param.slice(index + 1)));
+            } catch (handledException) {
+                throw new DecodeError('Invalid form-urlencoded response body received', rawBody, handledException);
+            }
+
+            if (!(key in _return)) {
+                _return[key] = value;
+            } else if (Array.isArray(_return[key])) {
+                (_return[key] as string[]).push(value);
+            } else {
+                _return[key] = [ _return[key], value ];
+            }
+        }
+
+        return _return;
+    }
+
+    /**
+     * Form-urlencodes the given request data.
+     *
+     * @param data Request data
+     *
+     * @return Request body
+     * @since  v1.2.0
+     */
+    public encode(data: unknown) {
+        return ((typeof data != 'object' || data === null) ? String(data) : this.serializer.serialize(data as MapObject, '&'));
+    }
+
+    /**
+     * Decodes the given form-urlencoded value.
+     *
+     * @param value Encoded value
+     *
+     * @return Decoded value
+     * @since  v1.2.0
+     */
+    protected static decode(value: string) {
+        return decodeURIComponent(value.replace(/\+/g, ' '));
+    }
+}
@@ -14,9 +14,18 @@
  * @license Mozilla Public License, v. 2.0
  */
 
-import { HttpClientQueryParams, HttpClientRequestArgs, HttpClientRequestData, HttpClientResponse } from './http-client-interfaces';
+import { DecodeError, HttpStatusError, ValidationError } from './http-client-errors';
+import {
+    HttpClientMiddleware,
+    HttpClientMiddlewareContext,
+    HttpClientMiddlewareNext,
+    HttpClientOptions,
+    HttpClientResponse,
+    HttpClientValidator
+} from './http-client-interfaces';
 
 import { HttpClient } from './http-client';
+import { HttpMultipartBuilder } from './http-multipart-builder';
 
 /**
  * HTTP client abstraction layer for JSON-encoded requests and responses.
@@ -34,82 +43,347 @@ export class HttpJsonClient extends HttpClient {
      *
      * @param url URL to be called
      * @param timeout Socket timeout
+     * @param options HTTP client options
      *
      * @since v1.0.0
      */
-    constructor(url: string, timeout = 30) {
-        super(url, timeout, true);
+    constructor(url: string, timeout = 30, options: HttpClientOptions = { }) {
+        super(url, timeout, true, options);
     }
 
     /**
-     * Handles the JSON response received.
+     * Returns the middlewares to be called for each request in order. The JSON
+     * middleware is always called last to provide decoded data to all others.
+     * The validation middleware is called first to validate responses served
+     * by the cache as well.
+     *
+     * @return List of middlewares
+     * @since  v1.2.0
+     */
+    protected getMiddlewares() {
+        const jsonMiddleware: HttpClientMiddleware = (context, next) => this.handleJsonMiddleware(context, next);
+        const validationMiddleware: HttpClientMiddleware = (context, next) => this.handleValidationMiddleware(context, next);
+
+        return [ validationMiddleware ].concat(super.getMiddlewares(), jsonMiddleware);
+    }
+
+    /**
+     * JSON-encodes the request data and decodes JSON responses received.
+     * Async iterables are sent as NDJSON streams and NDJSON or JSON text
+     * sequence responses are decoded into async iterables of records.
+     *
+     * @param context Middleware context
+     * @param next Callback to continue with the next middleware
+     *
+     * @return Response data
+     * @since  v1.2.0
+     */
+    protected async handleJsonMiddleware(context: HttpClientMiddlewareContext, next: HttpClientMiddlewareNext) {
+        const data = context.requestArgs.data;
+        const headers = context.requestInit.headers as Headers;
+        const contentType = headers.get('content-type');
+
+        // Data for other content types is encoded by the codec registered
+        const isEncodedByCodec = (
+            contentType !== null
+            && (!HttpJsonClient.isJsonContentType(contentType))
+            && this.codecs !== undefined
+            && this.codecs.getCodec(contentType) !== undefined
+        );
+
+        if (HttpJsonClient.isAsyncIterable(data) && (!HttpClient.isRawRequestData(data))) {
+            if (!headers.has('content-type')) {
+                headers.set('content-type', 'application/x-ndjson');
+            }
+
+            context.requestArgs.data = HttpJsonClient.newNdjsonStream(data);
+        } else if (
+            data
+            && (!isEncodedByCodec)
+            && (!HttpClient.isRawRequestData(data))
+            && (!HttpMultipartBuilder.containsFiles(data))
+        ) {
+            if (!headers.has('accept')) {
+                headers.set('accept', 'application/json');
+            }
+
+            if (!headers.has('content-type')) {
+                let contentType = 'application/json';
+                const charset = this.environment.charset;
+
+                if (charset) {
+                    contentType += `; charset=${charset}`;
+                }
+
+                headers.set('content-type', contentType);
+            }
+
+            context.requestArgs.data = JSON.stringify(data);
+        }
+
+        const response = await next();
+
+        const isStatusError = (response.body instanceof HttpStatusError);
+
+        const sequenceSeparator = (
+            (response.rawResponse && (!isStatusError))
+            ? HttpJsonClient.getJsonSequenceSeparator(response.headers.content_type as string)
+            : undefined
+        );
+
+        if (isStatusError) {
+            // Error bodies are decoded by "newResponse()" already
+            delete(response.rawResponse);
+        } else if (sequenceSeparator !== undefined) {
+            if (response.rawResponse.body) {
+                const options = context.requestArgs.options;
+
+                const chunks = (
+                    this.getTransferOptions(context.requestArgs).stream
+                    ? response.body as AsyncIterable<Uint8Array>
+                    : HttpClient.readChunks(response.rawResponse.body)
+                );
+
+                response.body = this.readJsonSequence(chunks, sequenceSeparator, (options ? options.validator : undefined));
+            }
+
+            delete(response.rawResponse);
+        } else if (
+            response.rawResponse
+            && HttpJsonClient.isJsonContentType(response.headers.content_type as string)
+            && (!this.getTransferOptions(context.requestArgs).stream)
+        ) {
+            void await this.handleJsonResponse(response);
+        } else if (
+            response.rawResponse
+            && this.codecs
+            && (!this.getTransferOptions(context.requestArgs).stream)
+        ) {
+            const codec = this.codecs.getCodec(response.headers.content_type as string);
+
+            if (codec) {
+                const rawResponse = response.rawResponse;
+                delete(response.rawResponse);
+
+                response.body = await codec.decode(rawResponse, response.headers.content_type as string);
+            }
+        }
+
+        return response;
+    }
+
+    /**
+     * Handles the JSON response received. The decoded body of unsuccessful
+     * responses is set as the body of the status error.
      *
      * @param response Structured response data object
      *
      * @since v1.1.0
      */
     protected async handleJsonResponse(response: HttpClientResponse) {
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-        response.body = await response.rawResponse.json();
+        const rawBody = await response.rawResponse.text();
+        let body: unknown = null;
+
         delete(response.rawResponse);
+
+        if (rawBody.trim()) {
+            try {
+                body = JSON.parse(rawBody);
+            } catch (handledException) {
+                throw new DecodeError('Invalid JSON response body received', rawBody, handledException);
+            }
+        }
+
+        if (response.body instanceof HttpStatusError) {
+            response.body.body = body;
+        } else {
+            response.body = body;
+        }
     }
 
     /**
-     * Parses the response received and generates a structured response data object.
+     * Validates the JSON body of successful responses with the validator
+     * given. JSON records of streamed responses are validated while read.
      *
-     * @param method HTTP method
-     * @param _ Request arguments to be used
-     * @param response Response received
+     * @param context Middleware context
+     * @param next Callback to continue with the next middleware
      *
-     * @return Response data; 'body' may contain the catched Exception
-     * @since  v1.1.0
+     * @return Response data
+     * @since  v1.2.0
      */
-    protected async newResponse(method: string, requestArgs: HttpClientRequestArgs, response: Response) {
-        const _return = await super.newResponse(method, requestArgs, response);
+    protected async handleValidationMiddleware(context: HttpClientMiddlewareContext, next: HttpClientMiddlewareNext) {
+        const response = await next();
+        const options = context.requestArgs.options;
 
-        if (_return.headers.content_type && ((/application\/json(;|$)/i).test(_return.headers.content_type as string))) {
-            void await this.handleJsonResponse(_return);
+        if (
+            options
+            && options.validator
+            && response.headers
+            && (!(response.body instanceof HttpStatusError))
+            && HttpJsonClient.isJsonContentType(response.headers.content_type as string)
+            && (!this.getTransferOptions(context.requestArgs).stream)
+        ) {
+            this.validateJsonBody(response.body, options.validator);
+        }
+
+        return response;
+    }
+
+    /**
+     * Decodes and validates the given JSON record of a sequence.
+     *
+     * @param record JSON-encoded record
+     * @param validator Validator applied to the record
+     *
+     * @return Decoded record
+     * @since  v1.2.0
+     */
+    protected decodeJsonRecord(record: string, validator?: HttpClientValidator) {
+        let _return: unknown;
+
+        try {
+            _return = JSON.parse(record);
+        } catch (handledException) {
+            throw new DecodeError('Invalid JSON record received', record, handledException);
+        }
+
+        if (validator) {
+            this.validateJsonBody(_return, validator);
         }
 
         return _return;
     }
 
     /**
-     * Call a given request method on the configured HTTP server.
+     * Decodes the records of a NDJSON or JSON text sequence body
+     * incrementally. Chunks are only read as records are consumed.
      *
-     * @param method HTTP method
-     * @param separator Query parameter separator
-     * @param params Parsed query parameters as str
-     * @param data HTTP body
+     * @param chunks Body chunks
+     * @param separator Record separator
+     * @param validator Validator applied to each record
      *
-     * @return Response data; 'body' may contain the catched exception
-     * @since  v1.0.0
+     * @return Async iterator of decoded records
+     * @since  v1.2.0
      */
-    public async request(method: string, separator = ';', params?: HttpClientQueryParams, data?: HttpClientRequestData) {
-        if (data) {
-            if ((typeof Blob == 'undefined' || (!(data instanceof Blob)))
-                && (typeof ArrayBuffer == 'undefined' || (!(data instanceof ArrayBuffer)))
-                && (typeof ReadableStream == 'undefined' || (!(data instanceof ReadableStream)))
-                && data instanceof Object
-            ) {
-                if (!this._requestInstance.headers.has('accept')) {
-                    this._requestInstance.headers.set('accept', 'application/json');
-                }
+    protected async *readJsonSequence(
+        chunks: AsyncIterable<Uint8Array>,
+        separator: string,
+        validator?: HttpClientValidator
+    ): AsyncGenerator<unknown> {
+        const decoder = new TextDecoder('utf-8');
+        let buffer = '';
 
-                if (!this._requestInstance.headers.has('content-type')) {
-                    let contentType = 'application/json';
+        for await (const chunk of chunks) {
+            buffer += decoder.decode(chunk, { stream: true });
 
-                    if (document.characterSet) {
-                        contentType += `; charset=${document.characterSet}`;
-                    }
+            const records = buffer.split(separator);
+            buffer = records.pop();
 
-                    this._requestInstance.headers.set('content-type', contentType);
+            for (const record of records) {
+                if (record.trim()) {
+                    yield this.decodeJsonRecord(record, validator);
                 }
-
-                data = JSON.stringify(data);
             }
         }
 
-        return super.request(method, separator, params, data);
+        buffer += decoder.decode();
+
+        if (buffer.trim()) {
+            yield this.decodeJsonRecord(buffer, validator);
+        }
+    }
+
+    /**
+     * Validates the decoded JSON body with the given validator.
+     *
+     * @param body Decoded JSON body
+     * @param validator Validator to be applied
+     *
+     * @since v1.2.0
+     */
+    protected validateJsonBody(body: unknown, validator: HttpClientValidator) {
+        let result;
+
+        try {
+            result = validator(body);
+        } catch (handledException) {
+            throw new ValidationError(
+                [ (handledException instanceof Error ? handledException.message : String(handledException)) ],
+                body,
+                handledException
+            );
+        }
+
+        if (result === false) {
+            throw new ValidationError([ ], body);
+        } else if (typeof result == 'string' && result) {
+            throw new ValidationError([ result ], body);
+        } else if (Array.isArray(result) && result.length > 0) {
+            throw new ValidationError(result, body);
+        }
+    }
+
+    /**
+     * Returns the record separator for NDJSON and JSON text sequence
+     * (RFC 7464) content types.
+     *
+     * @param contentType Content type received
+     *
+     * @return Record separator; undefined for other content types
+     * @since  v1.2.0
+     */
+    protected static getJsonSequenceSeparator(contentType?: string) {
+        let _return: string;
+
+        if ((/^application\/(x-)?ndjson(;|$)/i).test(contentType)) {
+            _return = '\n';
+        } else if ((/^application\/json-seq(;|$)/i).test(contentType)) {
+            _return = '\u001e';
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns true if the given data is an async iterable.
+     *
+     * @param data Request data
+     *
+     * @return True if async iterable
+     * @since  v1.2.0
+     */
+    protected static isAsyncIterable(data: unknown): data is AsyncIterable<unknown> {
+        return (data !== null && typeof data == 'object' && Symbol.asyncIterator in data);
+    }
+
+    /**
+     * Returns a stream of NDJSON-encoded records read from the given async
+     * iterable as the stream is consumed.
+     *
+     * @param data Async iterable of records
+     *
+     * @return NDJSON stream
+     * @since  v1.2.0
+     */
+    protected static newNdjsonStream(data: AsyncIterable<unknown>) {
+        const encoder = new TextEncoder();
+        const iterator = data[Symbol.asyncIterator]();
+
+        return new ReadableStream<Uint8Array>({
+            cancel: async () => {
+                if (iterator.return) {
+                    await iterator.return();
+                }
+            },
+            pull: async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+                const result = await iterator.next();
+
+                if (result.done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(encoder.encode(JSON.stringify(result.value) + '\n'));
+                }
+            }
+        });
     }
 }
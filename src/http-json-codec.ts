@@ -0,0 +1,68 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+
+import { DecodeError } from './http-client-errors';
+import { HttpCodec } from './http-client-interfaces';
+
+/**
+ * Codec for JSON-encoded bodies of "application/json" and all media types
+ * with the "+json" structured syntax suffix.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpJsonCodec implements HttpCodec {
+    /**
+     * Decodes the JSON body of the given response. Empty bodies are decoded
+     * as "null".
+     *
+     * @param response Response received
+     *
+     * @return Decoded body
+     * @since  v1.2.0
+     */
+    public async decode(response: Response) {
+        const rawBody = await response.text();
+        let _return: unknown = null;
+
+        if (rawBody.trim()) {
+            try {
+                _return = JSON.parse(rawBody);
+            } catch (handledException) {
+                throw new DecodeError('Invalid JSON response body received', rawBody, handledException);
+            }
+        }
+
+        return _return;
+    }
+
+    /**
+     * JSON-encodes the given request data.
+     *
+     * @param data Request data
+     *
+     * @return Request body
+     * @since  v1.2.0
+     */
+    public encode(data: unknown) {
+        return JSON.stringify(data);
+    }
+}
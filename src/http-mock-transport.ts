@@ -0,0 +1,399 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+import {
+    HttpClientTimers,
+    HttpClientTransport,
+    HttpMockTransportCall,
+    HttpMockTransportMatcher,
+    HttpMockTransportResponder,
+    HttpMockTransportResponse
+} from './http-client-interfaces';
+
+/**
+ * Mock transport route
+ */
+type HttpMockTransportRoute = {
+    calls: number,
+    matcher: HttpMockTransportMatcher,
+    responder: HttpMockTransportResponder,
+    times?: number
+};
+
+/**
+ * In-memory transport answering requests with canned responses for
+ * deterministic tests without network access.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpMockTransport {
+    /**
+     * List of requests received
+     */
+    public readonly calls: HttpMockTransportCall[] = [ ];
+    /**
+     * Routes registered in the order of precedence
+     */
+    protected routes: HttpMockTransportRoute[] = [ ];
+    /**
+     * Timer source used for response delays
+     */
+    protected timers: HttpClientTimers;
+
+    /**
+     * Constructor (HttpMockTransport)
+     *
+     * @param timers Timer source used for response delays; the global timers
+     *        if not given
+     *
+     * @since v1.2.0
+     */
+    constructor(timers?: HttpClientTimers) {
+        this.timers = (
+            timers
+            ? timers
+            : {
+                clearTimeout: (id: unknown) => { clearTimeout(id as number); },
+                setTimeout: (callback: () => void, delay: number) => setTimeout(callback, delay)
+            }
+        );
+    }
+
+    /**
+     * Returns the transport function to be given to HTTP clients.
+     *
+     * @return Transport function
+     * @since  v1.2.0
+     */
+    public get transport(): HttpClientTransport {
+        return (request: Request, init?: RequestInit) => this.fetch(request, init);
+    }
+
+    /**
+     * Throws an error if the number of requests matching the given criteria
+     * differs from the expected one.
+     *
+     * @param matcher Criteria to match requests against
+     * @param times Number of calls expected; at least one if not given
+     *
+     * @since v1.2.0
+     */
+    public assertCalled(matcher: HttpMockTransportMatcher = { }, times?: number) {
+        const calls = this.getCalls(matcher).length;
+
+        if (times === undefined ? calls < 1 : calls !== times) {
+            throw new Error(
+                `Expected ${times === undefined ? 'at least 1' : times} matching request(s) `
+                + `for ${JSON.stringify(matcher)} but received ${calls}`
+            );
+        }
+    }
+
+    /**
+     * Throws an error if any route limited to a number of calls has not been
+     * used up.
+     *
+     * @since v1.2.0
+     */
+    public assertDone() {
+        for (const route of this.routes) {
+            if (route.times !== undefined && route.calls < route.times) {
+                throw new Error(
+                    `Expected ${route.times} request(s) for ${JSON.stringify(route.matcher)} but received ${route.calls}`
+                );
+            }
+        }
+    }
+
+    /**
+     * Throws an error if any request matches the given criteria.
+     *
+     * @param matcher Criteria to match requests against
+     *
+     * @since v1.2.0
+     */
+    public assertNotCalled(matcher: HttpMockTransportMatcher = { }) {
+        this.assertCalled(matcher, 0);
+    }
+
+    /**
+     * Returns a promise resolved after the given delay or rejected if the
+     * given signal aborts it.
+     *
+     * @param delay Delay in milliseconds
+     * @param signal Abort signal
+     *
+     * @return Promise resolved after the delay
+     * @since  v1.2.0
+     */
+    protected delay(delay: number, signal?: AbortSignal) {
+        return new Promise<void>(
+            (resolve: () => void, reject: (reason: Error) => void) => {
+                if (signal && signal.aborted) {
+                    reject(HttpMockTransport.newAbortError());
+                    return;
+                }
+
+                const onAbort = () => {
+                    this.timers.clearTimeout(timeoutId);
+                    reject(HttpMockTransport.newAbortError());
+                };
+
+                const timeoutId = this.timers.setTimeout(
+                    () => {
+                        if (signal) {
+                            signal.removeEventListener('abort', onAbort);
+                        }
+
+                        resolve();
+                    },
+                    delay
+                );
+
+                if (signal) {
+                    signal.addEventListener('abort', onAbort);
+                }
+            }
+        );
+    }
+
+    /**
+     * Handles the given request in the same way as "fetch()".
+     *
+     * @param request Request to be sent
+     * @param init Additional request arguments
+     *
+     * @return Response promise
+     * @since  v1.2.0
+     */
+    public async fetch(request: Request, init: RequestInit = { }) {
+        const call = this.newCall(request, init);
+        this.calls.push(call);
+
+        const route = this.routes.find(
+            (route: HttpMockTransportRoute) => (
+                (route.times === undefined || route.calls < route.times) && HttpMockTransport.matches(route.matcher, call)
+            )
+        );
+
+        if (!route) {
+            throw new Error(`No mock transport route matches ${call.method} ${call.url}`);
+        }
+
+        route.calls++;
+
+        const response = await (
+            typeof route.responder == 'function' ? route.responder(call) : route.responder
+        );
+
+        if (response.delay > 0) {
+            await this.delay(response.delay, init.signal);
+        }
+
+        if (init.signal && init.signal.aborted) {
+            throw HttpMockTransport.newAbortError();
+        }
+
+        if (response.error) {
+            throw response.error;
+        }
+
+        return HttpMockTransport.newResponse(response);
+    }
+
+    /**
+     * Returns all requests received matching the given criteria.
+     *
+     * @param matcher Criteria to match requests against
+     *
+     * @return List of requests
+     * @since  v1.2.0
+     */
+    public getCalls(matcher: HttpMockTransportMatcher = { }) {
+        return this.calls.filter((call: HttpMockTransportCall) => HttpMockTransport.matches(matcher, call));
+    }
+
+    /**
+     * Returns the data of the given request recorded for assertions.
+     *
+     * @param request Request to be sent
+     * @param init Additional request arguments
+     *
+     * @return Request data
+     * @since  v1.2.0
+     */
+    protected newCall(request: Request, init: RequestInit) {
+        const url = new URL(request.url);
+        const query = { } as { [key: string]: string };
+
+        for (const param of url.search.slice(1).split(/[&;]/)) {
+            if (param) {
+                const index = param.indexOf('=');
+                const key = (index < 0 ? param : param.slice(0, index));
+
+                query[HttpMockTransport.decode(key)] = (index < 0 ? '' : HttpMockTransport.decode(param.slice(index + 1)));
+            }
+        }
+
+        return {
+            body: init.body,
+            headers: new Headers(init.headers ? init.headers : request.headers),
+            method: (init.method ? init.method : request.method).toUpperCase(),
+            path: url.pathname,
+            query,
+            url: request.url
+        } as HttpMockTransportCall;
+    }
+
+    /**
+     * Registers a route answering matching requests.
+     *
+     * @param matcher Criteria to match requests against
+     * @param responder Canned response or callback generating it
+     * @param times Number of requests answered; unlimited if not given
+     *
+     * @return Mock transport instance
+     * @since  v1.2.0
+     */
+    public on(matcher: HttpMockTransportMatcher, responder: HttpMockTransportResponder, times?: number) {
+        this.routes.push({ calls: 0, matcher, responder, times });
+        return this;
+    }
+
+    /**
+     * Removes all routes and requests recorded.
+     *
+     * @since v1.2.0
+     */
+    public reset() {
+        this.calls.length = 0;
+        this.routes = [ ];
+    }
+
+    /**
+     * Decodes the given query string component.
+     *
+     * @param value Encoded value
+     *
+     * @return Decoded value
+     * @since  v1.2.0
+     */
+    protected static decode(value: string) {
+        return decodeURIComponent(value.replace(/\+/g, ' '));
+    }
+
+    /**
+     * Returns true if the given request matches all criteria given.
+     *
+     * @param matcher Criteria to match requests against
+     * @param call Request data
+     *
+     * @return True if matching
+     * @since  v1.2.0
+     */
+    protected static matches(matcher: HttpMockTransportMatcher, call: HttpMockTransportCall) {
+        let _return = (
+            (matcher.method === undefined || matcher.method.toUpperCase() === call.method)
+            && (matcher.path === undefined || HttpMockTransport.matchesValue(matcher.path, call.path))
+        );
+
+        if (_return && matcher.headers) {
+            _return = Object.keys(matcher.headers).every(
+                (name: string) => HttpMockTransport.matchesValue(matcher.headers[name], call.headers.get(name))
+            );
+        }
+
+        if (_return && matcher.query) {
+            _return = Object.keys(matcher.query).every(
+                (name: string) => HttpMockTransport.matchesValue(matcher.query[name], call.query[name])
+            );
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns true if the given value matches the expected string or regular
+     * expression.
+     *
+     * @param expected Expected value
+     * @param value Value to be checked
+     *
+     * @return True if matching
+     * @since  v1.2.0
+     */
+    protected static matchesValue(expected: RegExp | string, value: string) {
+        return (
+            (value !== undefined && value !== null)
+            && (expected instanceof RegExp ? expected.test(value) : expected === value)
+        );
+    }
+
+    /**
+     * Returns a new error as thrown by "fetch()" for aborted requests.
+     *
+     * @return Abort error
+     * @since  v1.2.0
+     */
+    protected static newAbortError() {
+        const _return = new Error('The operation was aborted');
+        _return.name = 'AbortError';
+
+        return _return;
+    }
+
+    /**
+     * Returns a new response for the canned response data given.
+     *
+     * @param response Canned response data
+     *
+     * @return Response instance
+     * @since  v1.2.0
+     */
+    protected static newResponse(response: HttpMockTransportResponse) {
+        const headers = new Headers(response.headers);
+        let body = response.body as BodyInit;
+
+        if (
+            body !== undefined
+            && body !== null
+            && typeof body != 'string'
+            && (typeof Blob == 'undefined' || (!(body instanceof Blob)))
+            && (typeof ArrayBuffer == 'undefined' || (!(body instanceof ArrayBuffer) && !ArrayBuffer.isView(body)))
+            && (typeof ReadableStream == 'undefined' || (!(body instanceof ReadableStream)))
+        ) {
+            body = JSON.stringify(body);
+
+            if (!headers.has('content-type')) {
+                headers.set('content-type', 'application/json');
+            }
+        }
+
+        return new Response(
+            (body === undefined ? null : body),
+            {
+                headers,
+                status: (response.status === undefined ? 200 : response.status),
+                statusText: (response.statusText === undefined ? '' : response.statusText)
+            }
+        );
+    }
+}
@@ -0,0 +1,183 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+import { HttpClientMultipartFile, MapObject } from './http-client-interfaces';
+
+/**
+ * Builder for multipart/form-data bodies based on objects containing files.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpMultipartBuilder {
+    /**
+     * Multipart file objects created by "file()". Other objects are never
+     * sent as files, even if they have a "content" member.
+     */
+    protected static files = new WeakSet<HttpClientMultipartFile>();
+
+    /**
+     * Builds a "FormData" body for the given object. Values of type "Blob",
+     * "File", "ArrayBuffer", typed arrays and multipart file objects created
+     * by "file()" are added as files, arrays as repeated fields and nested
+     * objects as "key[subKey]" fields. "null" and undefined values are
+     * skipped.
+     *
+     * @param data Object to be encoded
+     *
+     * @return FormData instance
+     * @since  v1.2.0
+     */
+    public static build(data: MapObject) {
+        const _return = new FormData();
+
+        for (const key of Object.keys(data)) {
+            HttpMultipartBuilder.append(_return, key, data[key]);
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns true if the given value contains files to be sent as
+     * multipart/form-data.
+     *
+     * @param value Value to be checked
+     *
+     * @return True if files are contained
+     * @since  v1.2.0
+     */
+    public static containsFiles(value: unknown): boolean {
+        let _return = HttpMultipartBuilder.isFile(value);
+
+        if ((!_return) && value !== null && typeof value == 'object' && (!(value instanceof Date))) {
+            const values = (Array.isArray(value) ? value : Object.keys(value).map((key: string) => (value as MapObject)[key]));
+            _return = values.some((entry: unknown) => HttpMultipartBuilder.containsFiles(entry));
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns a multipart file object for the given content.
+     *
+     * @param content File content
+     * @param filename Filename
+     * @param contentType Content type of the part
+     *
+     * @return Multipart file object
+     * @since  v1.2.0
+     */
+    public static file(content: HttpClientMultipartFile['content'], filename?: string, contentType?: string) {
+        const _return = { content, contentType, filename } as HttpClientMultipartFile;
+        HttpMultipartBuilder.files.add(_return);
+
+        return _return;
+    }
+
+    /**
+     * Appends the given value to the "FormData" instance.
+     *
+     * @param formData FormData instance
+     * @param key Field name
+     * @param value Field value
+     *
+     * @since v1.2.0
+     */
+    protected static append(formData: FormData, key: string, value: unknown) {
+        if (value === undefined || value === null) {
+            return;
+        }
+
+        if (HttpMultipartBuilder.isFile(value)) {
+            const file = HttpMultipartBuilder.toFile(value);
+            formData.append(key, file.blob, file.filename);
+        } else if (Array.isArray(value)) {
+            for (const entry of value) {
+                HttpMultipartBuilder.append(formData, key, entry);
+            }
+        } else if (value instanceof Date) {
+            formData.append(key, value.toISOString());
+        } else if (typeof value == 'boolean') {
+            formData.append(key, (value ? '1' : '0'));
+        } else if (typeof value == 'object') {
+            for (const subKey of Object.keys(value)) {
+                HttpMultipartBuilder.append(formData, `${key}[${subKey}]`, (value as MapObject)[subKey]);
+            }
+        } else {
+            formData.append(key, String(value));
+        }
+    }
+
+    /**
+     * Returns true if the given value is sent as a file.
+     *
+     * @param value Value to be checked
+     *
+     * @return True if sent as a file
+     * @since  v1.2.0
+     */
+    protected static isFile(value: unknown) {
+        return (
+            (typeof Blob != 'undefined' && value instanceof Blob)
+            || (typeof ArrayBuffer != 'undefined' && (value instanceof ArrayBuffer || ArrayBuffer.isView(value)))
+            || (value !== null && typeof value == 'object' && HttpMultipartBuilder.files.has(value as HttpClientMultipartFile))
+        );
+    }
+
+    /**
+     * Returns the blob and filename for the given file value.
+     *
+     * @param value File value
+     *
+     * @return Blob and filename
+     * @since  v1.2.0
+     */
+    protected static toFile(value: unknown) {
+        const file: HttpClientMultipartFile = (
+            (typeof Blob != 'undefined' && value instanceof Blob)
+            || (typeof ArrayBuffer != 'undefined' && (value instanceof ArrayBuffer || ArrayBuffer.isView(value)))
+            ? { content: value as Blob }
+            : value as HttpClientMultipartFile
+        );
+
+        let blob: Blob;
+        let filename = file.filename;
+
+        if (file.content instanceof Blob) {
+            blob = (
+                (file.contentType && file.contentType !== file.content.type)
+                ? new Blob([ file.content ], { type: file.contentType })
+                : file.content
+            );
+
+            if ((!filename) && 'name' in file.content) {
+                filename = (file.content as File).name;
+            }
+        } else {
+            blob = new Blob(
+                [ file.content ],
+                { type: (file.contentType ? file.contentType : 'application/octet-stream') }
+            );
+        }
+
+        return { blob, filename: (filename ? filename : 'blob') };
+    }
+}
@@ -0,0 +1,196 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+import {
+    HttpClientAuthProvider,
+    HttpClientMiddlewareContext,
+    HttpOAuth2AuthProviderOptions,
+    MapObject
+} from './http-client-interfaces';
+
+import { DecodeError } from './http-client-errors';
+import { HttpJsonClient } from './http-json-client';
+
+/**
+ * Auth provider requesting access tokens from an OAuth2 token endpoint with
+ * the client credentials or refresh token grant. Tokens are cached until
+ * they expire and concurrent requests share a single token request.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpOAuth2AuthProvider implements HttpClientAuthProvider {
+    /**
+     * Access token cached
+     */
+    protected accessToken: string;
+    /**
+     * Timestamp in milliseconds the access token expires at
+     */
+    protected accessTokenExpires: number;
+    /**
+     * Provider options
+     */
+    protected options: HttpOAuth2AuthProviderOptions;
+    /**
+     * Token request in progress
+     */
+    protected pendingTokenRequest: Promise<string>;
+    /**
+     * Refresh token used for the refresh token grant
+     */
+    protected refreshToken: string;
+
+    /**
+     * Constructor (HttpOAuth2AuthProvider)
+     *
+     * @param options Provider options
+     *
+     * @since v1.2.0
+     */
+    constructor(options: HttpOAuth2AuthProviderOptions) {
+        this.options = { clientAuthentication: 'basic', expiryMargin: 30, ...options };
+        this.refreshToken = options.refreshToken;
+    }
+
+    /**
+     * Returns a valid access token and requests a new one if required.
+     *
+     * @return Access token
+     * @since  v1.2.0
+     */
+    public getAccessToken() {
+        if (this.accessToken && Date.now() < this.accessTokenExpires) {
+            return Promise.resolve(this.accessToken);
+        }
+
+        if (this.pendingTokenRequest === undefined) {
+            this.pendingTokenRequest = this.requestAccessToken().then(
+                (accessToken: string) => {
+                    this.pendingTokenRequest = undefined;
+                    return accessToken;
+                },
+                (reason: Error) => {
+                    this.pendingTokenRequest = undefined;
+                    throw reason;
+                }
+            );
+        }
+
+        return this.pendingTokenRequest;
+    }
+
+    /**
+     * Returns the "Authorization" header value.
+     *
+     * @return Header value
+     * @since  v1.2.0
+     */
+    public async getAuthorization() {
+        return `Bearer ${await this.getAccessToken()}`;
+    }
+
+    /**
+     * Invalidates the access token used for the request rejected with 401 and
+     * returns true to replay it with a new one.
+     *
+     * @param context Middleware context
+     *
+     * @return True to replay the request
+     * @since  v1.2.0
+     */
+    public refresh(context: HttpClientMiddlewareContext) {
+        const headers = context.requestInit.headers as Headers;
+
+        // Requests sent with an outdated token only wait for the new one
+        if (this.accessToken && headers.get('authorization') === `Bearer ${this.accessToken}`) {
+            this.accessToken = undefined;
+        }
+
+        return true;
+    }
+
+    /**
+     * Requests a new access token from the token endpoint.
+     *
+     * @return Access token
+     * @since  v1.2.0
+     */
+    protected async requestAccessToken() {
+        const options = this.options;
+        const params = new URLSearchParams();
+
+        const client = new HttpJsonClient(
+            options.tokenUrl,
+            (options.timeout === undefined ? 30 : options.timeout),
+            { throwErrors: true, transport: options.transport }
+        );
+
+        if (options.grantType === 'refresh_token' && this.refreshToken) {
+            params.set('grant_type', 'refresh_token');
+            params.set('refresh_token', this.refreshToken);
+        } else {
+            params.set('grant_type', 'client_credentials');
+        }
+
+        if (options.scope) {
+            params.set('scope', options.scope);
+        }
+
+        if (options.clientAuthentication === 'body') {
+            params.set('client_id', options.clientId);
+
+            if (options.clientSecret) {
+                params.set('client_secret', options.clientSecret);
+            }
+        } else {
+            client.setBasicAuth(
+                encodeURIComponent(options.clientId),
+                (options.clientSecret ? encodeURIComponent(options.clientSecret) : '')
+            );
+        }
+
+        client.setHeader('accept', 'application/json');
+
+        const response = await client.requestPost<MapObject>(params);
+        const body = response.body;
+
+        if ((!body) || typeof body.access_token != 'string') {
+            throw new DecodeError('Token endpoint response does not contain an access token', body);
+        }
+
+        const expiresIn = Number(body.expires_in);
+
+        this.accessToken = body.access_token;
+
+        this.accessTokenExpires = (
+            (isNaN(expiresIn) || expiresIn <= 0)
+            ? Infinity
+            // Short-lived tokens are used for at least half of their lifetime
+            : Date.now() + ((expiresIn - Math.min(options.expiryMargin, expiresIn / 2)) * 1000)
+        );
+
+        if (typeof body.refresh_token == 'string') {
+            this.refreshToken = body.refresh_token;
+        }
+
+        return this.accessToken;
+    }
+}
@@ -0,0 +1,180 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+import {
+    HttpClientPage,
+    HttpClientPaginationExtractor,
+    HttpClientPaginationStrategy,
+    MapObject
+} from './http-client-interfaces';
+
+import { resolve as uriResolve } from 'uri-js';
+
+/**
+ * Built-in pagination strategies to be used with "HttpClient.paginate()".
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpPagination {
+    /**
+     * Returns a strategy following the cursor extracted from the response
+     * body until it is empty.
+     *
+     * @param cursor Dot separated path or callback to extract the cursor
+     * @param cursorParam Query parameter the cursor is sent with
+     *
+     * @return Pagination strategy
+     * @since  v1.2.0
+     */
+    public static cursor(cursor: HttpClientPaginationExtractor, cursorParam = 'cursor'): HttpClientPaginationStrategy {
+        return {
+            next: (page: HttpClientPage) => {
+                const value = HttpPagination.extract(page.response.body, cursor);
+
+                return (
+                    (value === undefined || value === null || value === '')
+                    ? undefined
+                    : { params: { ...page.request.params, [cursorParam]: value } }
+                );
+            }
+        };
+    }
+
+    /**
+     * Returns the value extracted from the given body.
+     *
+     * @param body Decoded response body
+     * @param extractor Dot separated path or callback to extract the value
+     *
+     * @return Value extracted; undefined if not found
+     * @since  v1.2.0
+     */
+    public static extract(body: unknown, extractor: HttpClientPaginationExtractor) {
+        if (typeof extractor == 'function') {
+            return extractor(body);
+        }
+
+        let _return = body;
+
+        for (const key of extractor.split('.')) {
+            if (_return === undefined || _return === null || typeof _return != 'object') {
+                return undefined;
+            }
+
+            _return = (_return as MapObject)[key];
+        }
+
+        return _return;
+    }
+
+    /**
+     * Returns the list of items extracted from the given body. Bodies being
+     * an array are returned as is if no extractor is given.
+     *
+     * @param body Decoded response body
+     * @param extractor Dot separated path or callback to extract the items
+     *
+     * @return List of items
+     * @since  v1.2.0
+     */
+    public static extractItems(body: unknown, extractor?: HttpClientPaginationExtractor) {
+        const items = (extractor === undefined ? body : HttpPagination.extract(body, extractor));
+        return (Array.isArray(items) ? items as unknown[] : [ ]);
+    }
+
+    /**
+     * Returns a strategy following the RFC 8288 "Link" header target with the
+     * given relation type.
+     *
+     * @param rel Relation type
+     *
+     * @return Pagination strategy
+     * @since  v1.2.0
+     */
+    public static link(rel = 'next'): HttpClientPaginationStrategy {
+        return {
+            next: (page: HttpClientPage) => {
+                const headers = page.response.headers;
+                const target = (headers ? HttpPagination.parseLinkHeader(headers.link as string)[rel.toLowerCase()] : undefined);
+
+                return (target === undefined ? undefined : { url: uriResolve(page.url, target) });
+            }
+        };
+    }
+
+    /**
+     * Returns a strategy increasing the offset by the limit until a page
+     * contains less items than the limit.
+     *
+     * @param limit Number of items per page
+     * @param offsetParam Query parameter the offset is sent with
+     * @param limitParam Query parameter the limit is sent with
+     * @param start Offset of the first page
+     *
+     * @return Pagination strategy
+     * @since  v1.2.0
+     */
+    public static offset(limit: number, offsetParam = 'offset', limitParam = 'limit', start = 0): HttpClientPaginationStrategy {
+        return {
+            initial: (params: MapObject) => ({ ...params, [limitParam]: limit, [offsetParam]: start }),
+            next: (page: HttpClientPage) => {
+                const offset = Number(page.request.params[offsetParam]);
+
+                return (
+                    (page.items.length < limit)
+                    ? undefined
+                    : { params: { ...page.request.params, [offsetParam]: offset + limit } }
+                );
+            }
+        };
+    }
+
+    /**
+     * Parses the given RFC 8288 "Link" header value.
+     *
+     * @param value "Link" header value
+     *
+     * @return Link targets by lower case relation type
+     * @since  v1.2.0
+     */
+    public static parseLinkHeader(value?: string) {
+        const _return = { } as { [key: string]: string };
+
+        if (value) {
+            const linkRegExp = /<([^>]*)>([^<]*)/g;
+            let link: RegExpExecArray;
+
+            while ((link = linkRegExp.exec(value)) !== null) {
+                const relMatch = /;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;,]+))/i.exec(link[2]);
+
+                if (relMatch) {
+                    for (const rel of (relMatch[1] === undefined ? relMatch[2] : relMatch[1]).split(/\s+/)) {
+                        if (rel && (!(rel.toLowerCase() in _return))) {
+                            _return[rel.toLowerCase()] = link[1].trim();
+                        }
+                    }
+                }
+            }
+        }
+
+        return _return;
+    }
+}
@@ -0,0 +1,175 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+import { HttpClientQueryEncoding, MapObject } from './http-client-interfaces';
+
+/**
+ * Serializer of query parameters and form-urlencoded bodies used by HTTP
+ * clients and the form-urlencoded codec to encode data the same way.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpQuerySerializer {
+    /**
+     * Default encoding of query parameters and form-urlencoded bodies
+     */
+    public static readonly DEFAULT_ENCODING: HttpClientQueryEncoding = {
+        arrayFormat: 'comma',
+        nullValues: 'skip'
+    };
+
+    /**
+     * Encoding applied
+     */
+    protected encoding: HttpClientQueryEncoding;
+
+    /**
+     * Constructor (HttpQuerySerializer)
+     *
+     * @param encoding Query encoding; values not given are taken from the
+     *        default encoding
+     *
+     * @since v1.2.0
+     */
+    constructor(encoding?: HttpClientQueryEncoding) {
+        this.encoding = { ...HttpQuerySerializer.DEFAULT_ENCODING, ...encoding } as HttpClientQueryEncoding;
+    }
+
+    /**
+     * Appends the encoded parameter to the given list of parameters.
+     *
+     * @param paramsList List of encoded parameters
+     * @param key Encoded parameter key
+     * @param value Parameter value
+     *
+     * @since v1.2.0
+     */
+    protected appendParameter(paramsList: string[], key: string, value: unknown) {
+        const isScalar = (entry: unknown) => (entry === null || typeof entry != 'object' || entry instanceof Date);
+
+        if (Array.isArray(value)) {
+            const arrayFormat = this.encoding.arrayFormat;
+
+            if (arrayFormat === 'comma' && value.every(isScalar)) {
+                const values = value.map(
+                    (entry: unknown) => this.encodeValue(entry)
+                ).filter((entry: string) => entry !== undefined);
+
+                if (values.length > 0) {
+                    paramsList.push(key + '=' + values.join(','));
+                }
+            } else {
+                value.forEach(
+                    (entry: unknown, index: number) => {
+                        let entryKey = key;
+
+                        if (arrayFormat === 'brackets') {
+                            entryKey += HttpQuerySerializer.encode('[]');
+                        } else if (arrayFormat !== 'repeat') {
+                            entryKey += HttpQuerySerializer.encode(`[${index}]`);
+                        }
+
+                        this.appendParameter(paramsList, entryKey, entry);
+                    }
+                );
+            }
+        } else if (isScalar(value)) {
+            const encodedValue = this.encodeValue(value);
+
+            if (encodedValue !== undefined) {
+                paramsList.push(key + '=' + encodedValue);
+            }
+        } else {
+            for (const subKey of Object.keys(value)) {
+                this.appendParameter(
+                    paramsList,
+                    key + HttpQuerySerializer.encode(`[${subKey}]`),
+                    (value as MapObject)[subKey]
+                );
+            }
+        }
+    }
+
+    /**
+     * Encodes the given scalar parameter value.
+     *
+     * @param value Parameter value
+     *
+     * @return Encoded value; undefined if the parameter should be skipped
+     * @since  v1.2.0
+     */
+    protected encodeValue(value: unknown) {
+        let _return: string;
+
+        if (value === undefined || value === null) {
+            if (this.encoding.nullValues === 'empty') {
+                _return = '';
+            }
+        } else if (typeof value == 'boolean') {
+            _return = (value ? '1' : '0');
+        } else if (value instanceof Date) {
+            _return = HttpQuerySerializer.encode(value.toISOString());
+        } else {
+            _return = HttpQuerySerializer.encode(String(value));
+        }
+
+        return _return;
+    }
+
+    /**
+     * Serializes the given parameters joined with the separator given.
+     *
+     * @param params Parameters object
+     * @param separator Parameter separator
+     *
+     * @return Serialized parameters
+     * @since  v1.2.0
+     */
+    public serialize(params: MapObject, separator = '&') {
+        let _return;
+
+        if (this.encoding.serializer) {
+            _return = this.encoding.serializer(params, separator);
+        } else {
+            const paramsList = [ ] as string[];
+
+            for (const key of Object.keys(params)) {
+                this.appendParameter(paramsList, HttpQuerySerializer.encode(key), params[key]);
+            }
+
+            _return = paramsList.join(separator);
+        }
+
+        return _return;
+    }
+
+    /**
+     * Form-urlencodes the given value.
+     *
+     * @param value Value to be encoded
+     *
+     * @return Encoded value
+     * @since  v1.2.0
+     */
+    protected static encode(value: string) {
+        return encodeURIComponent(value).replace(/%20/g, '+');
+    }
+}
@@ -0,0 +1,434 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+import {
+    HttpClientTimers,
+    HttpClientTransport,
+    HttpSchedulerOptions,
+    HttpSchedulerRateLimit
+} from './http-client-interfaces';
+
+import { AbortError } from './http-client-errors';
+
+/**
+ * Request waiting to be sent
+ */
+type HttpSchedulerTask = {
+    priority: number,
+    start: () => void,
+    timers: HttpClientTimers
+};
+
+/**
+ * Queue, concurrency and token bucket state of a host
+ */
+type HttpSchedulerHost = {
+    active: number,
+    queue: HttpSchedulerTask[],
+    timeoutId?: unknown,
+    tokens: number,
+    updated: number
+};
+
+/**
+ * Caller waiting for a deduplicated request
+ */
+type HttpSchedulerWaiter = {
+    reject: (reason: unknown) => void,
+    resolve: (response: Response) => void
+};
+
+/**
+ * Deduplicated request in flight
+ */
+type HttpSchedulerInFlightRequest = {
+    controller: AbortController,
+    waiters: HttpSchedulerWaiter[]
+};
+
+/**
+ * Scheduler shareable by HTTP clients limiting concurrent requests and the
+ * request rate per host. Identical "GET" and "HEAD" requests in flight are
+ * sent only once and the response is cloned for every caller.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpScheduler {
+    /**
+     * Default maximum number of concurrent requests per host
+     */
+    public static readonly DEFAULT_MAX_CONCURRENT_PER_HOST = 6;
+
+    /**
+     * True to deduplicate identical requests in flight
+     */
+    protected deduplicate: boolean;
+    /**
+     * Scheduling state by host
+     */
+    protected hosts = new Map<string, HttpSchedulerHost>();
+    /**
+     * Deduplicated requests in flight by request key
+     */
+    protected inFlightRequests = new Map<string, HttpSchedulerInFlightRequest>();
+    /**
+     * Maximum number of concurrent requests per host
+     */
+    protected maxConcurrentPerHost: number;
+    /**
+     * Token bucket rate limit per host
+     */
+    protected rateLimit: HttpSchedulerRateLimit;
+
+    /**
+     * Constructor (HttpScheduler)
+     *
+     * @param options Scheduler options
+     *
+     * @since v1.2.0
+     */
+    constructor(options: HttpSchedulerOptions = { }) {
+        this.deduplicate = (options.deduplicate !== false);
+
+        this.maxConcurrentPerHost = (
+            options.maxConcurrentPerHost > 0
+            ? options.maxConcurrentPerHost
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            : this.instanceClass.DEFAULT_MAX_CONCURRENT_PER_HOST as number
+        );
+
+        this.rateLimit = (
+            (options.rateLimit && options.rateLimit.requestsPerSecond > 0)
+            ? { burst: 1, ...options.rateLimit }
+            : undefined
+        );
+    }
+
+    /**
+     * Returns the class object of this instance.
+     *
+     * @return Class object
+     * @since  v1.2.0
+     */
+    protected get instanceClass() {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-return
+        return Object.getPrototypeOf(this).constructor;
+    }
+
+    /**
+     * Sends the request with the given transport once permitted by the
+     * limits of its host. Requests waiting for the rate limit are delayed
+     * with the given timers.
+     *
+     * @param request Request to be sent
+     * @param init Additional request arguments
+     * @param transport Transport used to send the request
+     * @param priority Requests with a higher priority are sent first
+     * @param timers Timer source of the client; the global timers if not
+     *        given
+     *
+     * @return Response promise
+     * @since  v1.2.0
+     */
+    public schedule(request: Request, init: RequestInit, transport: HttpClientTransport, priority = 0, timers?: HttpClientTimers) {
+        const method = (init.method ? init.method : request.method).toUpperCase();
+
+        if (!timers) {
+            timers = {
+                clearTimeout: (id: unknown) => { clearTimeout(id as number); },
+                setTimeout: (callback: () => void, delay: number) => setTimeout(callback, delay)
+            };
+        }
+
+        return (
+            (this.deduplicate && (method === 'GET' || method === 'HEAD') && (!init.body))
+            ? this.scheduleDeduplicated(request, init, transport, priority, timers)
+            : this.enqueue(request, init, transport, priority, timers)
+        );
+    }
+
+    /**
+     * Queues the request for its host and sends it once permitted.
+     *
+     * @param request Request to be sent
+     * @param init Additional request arguments
+     * @param transport Transport used to send the request
+     * @param priority Requests with a higher priority are sent first
+     * @param timers Timer source used to wait for the rate limit
+     *
+     * @return Response promise
+     * @since  v1.2.0
+     */
+    protected enqueue(
+        request: Request,
+        init: RequestInit,
+        transport: HttpClientTransport,
+        priority: number,
+        timers: HttpClientTimers
+    ) {
+        const hostKey = new URL(request.url).host;
+        let host = this.hosts.get(hostKey);
+
+        if (!host) {
+            host = {
+                active: 0,
+                queue: [ ],
+                tokens: (this.rateLimit ? this.rateLimit.burst : 0),
+                updated: Date.now()
+            };
+
+            this.hosts.set(hostKey, host);
+        }
+
+        return new Promise<Response>(
+            (resolve: (response: Response) => void, reject: (reason: unknown) => void) => {
+                const signal = init.signal;
+
+                if (signal && signal.aborted) {
+                    reject(new AbortError());
+                    return;
+                }
+
+                const onAbort = () => {
+                    const index = host.queue.indexOf(task);
+
+                    if (index > -1) {
+                        host.queue.splice(index, 1);
+                        reject(new AbortError());
+                    }
+                };
+
+                const task: HttpSchedulerTask = {
+                    priority,
+                    start: () => {
+                        if (signal) {
+                            signal.removeEventListener('abort', onAbort);
+                        }
+
+                        const release = () => {
+                            host.active--;
+                            this.processQueue(host);
+                        };
+
+                        // Transports throwing synchronously reject as well
+                        Promise.resolve().then(() => transport(request, init)).then(
+                            (response: Response) => {
+                                release();
+                                resolve(response);
+                            },
+                            (reason: unknown) => {
+                                release();
+                                reject(reason);
+                            }
+                        );
+                    },
+                    timers
+                };
+
+                if (signal) {
+                    signal.addEventListener('abort', onAbort);
+                }
+
+                // Tasks are sorted by priority and in order of arrival
+                let index = host.queue.findIndex((queuedTask: HttpSchedulerTask) => queuedTask.priority < priority);
+
+                if (index < 0) {
+                    index = host.queue.length;
+                }
+
+                host.queue.splice(index, 0, task);
+                this.processQueue(host);
+            }
+        );
+    }
+
+    /**
+     * Returns the key identifying identical requests.
+     *
+     * @param request Request to be sent
+     * @param init Additional request arguments
+     *
+     * @return Request key
+     * @since  v1.2.0
+     */
+    protected getRequestKey(request: Request, init: RequestInit) {
+        const headers = [ ] as string[];
+
+        new Headers(init.headers ? init.headers : request.headers).forEach(
+            (value: string, name: string) => { headers.push(`${name}: ${value}`); }
+        );
+
+        return [
+            (init.method ? init.method : request.method).toUpperCase(),
+            request.url,
+            String(init.cache),
+            String(init.credentials),
+            String(init.mode),
+            String(init.redirect)
+        ].concat(headers.sort()).join('\n');
+    }
+
+    /**
+     * Starts queued requests of the given host as long as permitted.
+     *
+     * @param host Host state
+     *
+     * @since v1.2.0
+     */
+    protected processQueue(host: HttpSchedulerHost) {
+        while (host.queue.length > 0 && host.active < this.maxConcurrentPerHost) {
+            if (this.rateLimit) {
+                const now = Date.now();
+
+                host.tokens = Math.min(
+                    this.rateLimit.burst,
+                    host.tokens + (((now - host.updated) / 1000) * this.rateLimit.requestsPerSecond)
+                );
+
+                host.updated = now;
+
+                if (host.tokens < 1) {
+                    if (host.timeoutId === undefined) {
+                        // The timers of the client waiting next are used
+                        host.timeoutId = host.queue[0].timers.setTimeout(
+                            () => {
+                                host.timeoutId = undefined;
+                                this.processQueue(host);
+                            },
+                            Math.ceil(((1 - host.tokens) / this.rateLimit.requestsPerSecond) * 1000)
+                        );
+                    }
+
+                    return;
+                }
+
+                host.tokens--;
+            }
+
+            host.active++;
+            host.queue.shift().start();
+        }
+    }
+
+    /**
+     * Sends the request once for all callers requesting it while in flight.
+     * The request is aborted only if all callers aborted it.
+     *
+     * @param request Request to be sent
+     * @param init Additional request arguments
+     * @param transport Transport used to send the request
+     * @param priority Requests with a higher priority are sent first
+     * @param timers Timer source used to wait for the rate limit
+     *
+     * @return Response promise
+     * @since  v1.2.0
+     */
+    protected scheduleDeduplicated(
+        request: Request,
+        init: RequestInit,
+        transport: HttpClientTransport,
+        priority: number,
+        timers: HttpClientTimers
+    ) {
+        const key = this.getRequestKey(request, init);
+        let inFlightRequest = this.inFlightRequests.get(key);
+
+        if (!inFlightRequest) {
+            const controller = new AbortController();
+            const sharedRequest: HttpSchedulerInFlightRequest = { controller, waiters: [ ] };
+
+            inFlightRequest = sharedRequest;
+            this.inFlightRequests.set(key, sharedRequest);
+
+            this.enqueue(request, { ...init, signal: controller.signal }, transport, priority, timers).then(
+                (response: Response) => {
+                    this.inFlightRequests.delete(key);
+
+                    // All clones are created before any caller reads the body
+                    sharedRequest.waiters.forEach(
+                        (waiter: HttpSchedulerWaiter, index: number) => {
+                            waiter.resolve(index === sharedRequest.waiters.length - 1 ? response : response.clone());
+                        }
+                    );
+                },
+                (reason: unknown) => {
+                    if (this.inFlightRequests.get(key) === sharedRequest) {
+                        this.inFlightRequests.delete(key);
+                    }
+
+                    sharedRequest.waiters.forEach((waiter: HttpSchedulerWaiter) => { waiter.reject(reason); });
+                }
+            );
+        }
+
+        const sharedRequest = inFlightRequest;
+
+        return new Promise<Response>(
+            (resolve: (response: Response) => void, reject: (reason: unknown) => void) => {
+                const signal = init.signal;
+
+                const onAbort = () => {
+                    const index = sharedRequest.waiters.indexOf(waiter);
+
+                    if (index > -1) {
+                        sharedRequest.waiters.splice(index, 1);
+                        reject(new AbortError());
+
+                        if (sharedRequest.waiters.length < 1) {
+                            if (this.inFlightRequests.get(key) === sharedRequest) {
+                                this.inFlightRequests.delete(key);
+                            }
+
+                            sharedRequest.controller.abort();
+                        }
+                    }
+                };
+
+                const removeListener = () => {
+                    if (signal) {
+                        signal.removeEventListener('abort', onAbort);
+                    }
+                };
+
+                const waiter: HttpSchedulerWaiter = {
+                    reject: (reason: unknown) => {
+                        removeListener();
+                        reject(reason);
+                    },
+                    resolve: (response: Response) => {
+                        removeListener();
+                        resolve(response);
+                    }
+                };
+
+                sharedRequest.waiters.push(waiter);
+
+                if (signal) {
+                    if (signal.aborted) {
+                        onAbort();
+                    } else {
+                        signal.addEventListener('abort', onAbort);
+                    }
+                }
+            }
+        );
+    }
+}
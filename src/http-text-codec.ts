@@ -0,0 +1,66 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+
+import { HttpCodec } from './http-client-interfaces';
+
+/**
+ * Codec for plain text bodies decoded with the charset given in the content
+ * type.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpTextCodec implements HttpCodec {
+    /**
+     * Decodes the text body of the given response. UTF-8 is used if the
+     * charset is not given or not supported.
+     *
+     * @param response Response received
+     * @param contentType Content type of the response
+     *
+     * @return Decoded body
+     * @since  v1.2.0
+     */
+    public async decode(response: Response, contentType: string) {
+        const charsetData = /;\s*charset\s*=\s*"?([^";\s]+)"?/i.exec(contentType);
+        let decoder: TextDecoder;
+
+        try {
+            decoder = new TextDecoder(charsetData ? charsetData[1] : 'utf-8');
+        } catch (handledException) {
+            decoder = new TextDecoder('utf-8');
+        }
+
+        return decoder.decode(await response.arrayBuffer());
+    }
+
+    /**
+     * Returns the given request data as text.
+     *
+     * @param data Request data
+     *
+     * @return Request body
+     * @since  v1.2.0
+     */
+    public encode(data: unknown) {
+        return String(data);
+    }
+}
@@ -0,0 +1,250 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+import { MapObject } from './http-client-interfaces';
+
+/**
+ * Expansion rules of an RFC 6570 expression operator
+ */
+type HttpUriTemplateOperator = {
+    allowReserved: boolean,
+    first: string,
+    ifEmpty: string,
+    named: boolean,
+    separator: string
+};
+
+/**
+ * RFC 6570 URI template expansion supporting all levels including prefix
+ * and explode modifiers.
+ *
+ * @author    direct Netware Group
+ * @copyright (C) direct Netware Group - All rights reserved
+ * @package   djt-http-client
+ * @since     v1.2.0
+ * @license   https://www.direct-netware.de/redirect?licenses;mpl2
+ *            Mozilla Public License, v. 2.0
+ */
+export class HttpUriTemplate {
+    /**
+     * Expansion rules by expression operator
+     */
+    protected static readonly OPERATORS: { [key: string]: HttpUriTemplateOperator } = {
+        '': { allowReserved: false, first: '', ifEmpty: '', named: false, separator: ',' },
+        '#': { allowReserved: true, first: '#', ifEmpty: '', named: false, separator: ',' },
+        '&': { allowReserved: false, first: '&', ifEmpty: '=', named: true, separator: '&' },
+        '+': { allowReserved: true, first: '', ifEmpty: '', named: false, separator: ',' },
+        '.': { allowReserved: false, first: '.', ifEmpty: '', named: false, separator: '.' },
+        '/': { allowReserved: false, first: '/', ifEmpty: '', named: false, separator: '/' },
+        ';': { allowReserved: false, first: ';', ifEmpty: '', named: true, separator: ';' },
+        '?': { allowReserved: false, first: '?', ifEmpty: '=', named: true, separator: '&' }
+    };
+
+    /**
+     * Encodes the given value for the expansion.
+     *
+     * @param value Value to be encoded
+     * @param allowReserved True to keep reserved characters and
+     *        percent-encoded triplets
+     *
+     * @return Encoded value
+     * @since  v1.2.0
+     */
+    protected static encode(value: string, allowReserved: boolean) {
+        if (!allowReserved) {
+            return encodeURIComponent(value).replace(
+                /[!'()*]/g,
+                (char: string) => '%' + char.charCodeAt(0).toString(16).toUpperCase()
+            );
+        }
+
+        return value.split(/(%[0-9A-Fa-f]{2})/).map(
+            (part: string, index: number) => (
+                (index % 2 === 1) ? part : encodeURI(part).replace(/%5B/gi, '[').replace(/%5D/gi, ']')
+            )
+        ).join('');
+    }
+
+    /**
+     * Expands the given URI template with the variables given. Undefined
+     * variables, "null", empty arrays and empty objects are omitted.
+     *
+     * @param template RFC 6570 URI template
+     * @param variables Variables to be expanded
+     *
+     * @return URI reference expanded
+     * @since  v1.2.0
+     */
+    public static expand(template: string, variables: MapObject) {
+        let _return = '';
+        let position = 0;
+
+        while (position < template.length) {
+            const start = template.indexOf('{', position);
+
+            if (start < 0) {
+                _return += HttpUriTemplate.encode(template.slice(position), true);
+                break;
+            }
+
+            const end = template.indexOf('}', start);
+
+            if (end < 0) {
+                throw new Error('URI template contains an unclosed expression');
+            }
+
+            _return += HttpUriTemplate.encode(template.slice(position, start), true);
+            _return += HttpUriTemplate.expandExpression(template.slice(start + 1, end), variables);
+
+            position = end + 1;
+        }
+
+        return _return;
+    }
+
+    /**
+     * Expands the given expression with the variables given.
+     *
+     * @param expression Expression without braces
+     * @param variables Variables to be expanded
+     *
+     * @return Expression expanded
+     * @since  v1.2.0
+     */
+    protected static expandExpression(expression: string, variables: MapObject) {
+        let operatorKey = expression.charAt(0);
+
+        if (operatorKey in HttpUriTemplate.OPERATORS && operatorKey !== '') {
+            expression = expression.slice(1);
+        } else {
+            operatorKey = '';
+        }
+
+        const operator = HttpUriTemplate.OPERATORS[operatorKey];
+        const values = [ ] as string[];
+
+        for (const varSpec of expression.split(',')) {
+            const varSpecData = /^([A-Za-z0-9_.%]+)(?::([1-9]\d{0,3})|(\*))?$/.exec(varSpec);
+
+            if (!varSpecData) {
+                throw new Error(`URI template contains an invalid variable "${varSpec}"`);
+            }
+
+            const value = HttpUriTemplate.expandValue(
+                operator,
+                varSpecData[1],
+                variables[varSpecData[1]],
+                (varSpecData[2] ? parseInt(varSpecData[2], 10) : undefined),
+                (varSpecData[3] === '*')
+            );
+
+            if (value !== undefined) {
+                values.push(value);
+            }
+        }
+
+        return (values.length > 0 ? operator.first + values.join(operator.separator) : '');
+    }
+
+    /**
+     * Expands the given variable value.
+     *
+     * @param operator Expansion rules of the expression operator
+     * @param name Variable name
+     * @param value Variable value
+     * @param prefixLength Maximum number of characters of string values
+     * @param isExploded True to expand composite values as separate items
+     *
+     * @return Value expanded; undefined if omitted
+     * @since  v1.2.0
+     */
+    protected static expandValue(
+        operator: HttpUriTemplateOperator,
+        name: string,
+        value: unknown,
+        prefixLength: number,
+        isExploded: boolean
+    ) {
+        const encode = (data: unknown) => HttpUriTemplate.encode(String(data), operator.allowReserved);
+        const expandNamed = (key: string, data: string) => (data === '' ? key + operator.ifEmpty : `${key}=${data}`);
+
+        let _return: string;
+
+        if (value === undefined || value === null) {
+            _return = undefined;
+        } else if (typeof value != 'object') {
+            let data = String(value);
+
+            if (prefixLength !== undefined) {
+                // Characters outside the BMP are counted once
+                const chars = data.match(/[\uD800-\uDBFF][\uDC00-\uDFFF]|[\s\S]/g);
+                data = (chars ? chars.slice(0, prefixLength).join('') : '');
+            }
+
+            _return = (operator.named ? expandNamed(name, encode(data)) : encode(data));
+        } else {
+            const pairs = [ ] as [ string, unknown ][];
+
+            if (Array.isArray(value)) {
+                for (const item of value) {
+                    if (item !== undefined && item !== null) {
+                        pairs.push([ undefined, item ]);
+                    }
+                }
+            } else {
+                for (const key of Object.keys(value)) {
+                    const item = (value as MapObject)[key];
+
+                    if (item !== undefined && item !== null) {
+                        pairs.push([ key, item ]);
+                    }
+                }
+            }
+
+            if (pairs.length > 0) {
+                if (isExploded) {
+                    _return = pairs.map(
+                        (pair: [ string, unknown ]) => {
+                            if (pair[0] === undefined) {
+                                return (operator.named ? expandNamed(name, encode(pair[1])) : encode(pair[1]));
+                            }
+
+                            return (
+                                operator.named
+                                ? expandNamed(encode(pair[0]), encode(pair[1]))
+                                : `${encode(pair[0])}=${encode(pair[1])}`
+                            );
+                        }
+                    ).join(operator.separator);
+                } else {
+                    const items = [ ] as string[];
+
+                    for (const pair of pairs) {
+                        if (pair[0] !== undefined) {
+                            items.push(encode(pair[0]));
+                        }
+
+                        items.push(encode(pair[1]));
+                    }
+
+                    _return = (operator.named ? expandNamed(name, items.join(',')) : items.join(','));
+                }
+            }
+        }
+
+        return _return;
+    }
+}
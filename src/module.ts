@@ -14,7 +14,25 @@
  * @license Mozilla Public License, v. 2.0
  */
 
+export { HttpBearerAuthProvider } from './http-bearer-auth-provider';
+export { HttpCache } from './http-cache';
+export { HttpCacheMemoryStorage } from './http-cache-memory-storage';
+export { HttpCircuitBreaker } from './http-circuit-breaker';
 export { HttpClient } from './http-client';
+export { HttpCodecRegistry } from './http-codec-registry';
+export { HttpCookieJar } from './http-cookie-jar';
+export { HttpEventSource } from './http-event-source';
+export { HttpFormCodec } from './http-form-codec';
 export { HttpJsonClient } from './http-json-client';
+export { HttpJsonCodec } from './http-json-codec';
+export { HttpMockTransport } from './http-mock-transport';
+export { HttpMultipartBuilder } from './http-multipart-builder';
+export { HttpOAuth2AuthProvider } from './http-oauth2-auth-provider';
+export { HttpPagination } from './http-pagination';
+export { HttpQuerySerializer } from './http-query-serializer';
+export { HttpScheduler } from './http-scheduler';
+export { HttpTextCodec } from './http-text-codec';
+export { HttpUriTemplate } from './http-uri-template';
 
+export * from './http-client-errors';
 export * from './http-client-interfaces';
@@ -0,0 +1,108 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpCache, HttpJsonClient, HttpMockTransport, ValidationError } = require('../lib/cjs/module');
+
+const newClient = (mock, cache) => new HttpJsonClient('http://api.test/items', 30, { cache, transport: mock.transport });
+
+describe('HttpCache', () => {
+    it('serves fresh responses from the cache', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { id: 1 }, headers: { 'cache-control': 'max-age=60' } });
+        const client = newClient(mock, new HttpCache());
+
+        assert.deepEqual((await client.request('GET')).body, { id: 1 });
+        assert.deepEqual((await client.request('GET')).body, { id: 1 });
+
+        mock.assertCalled({ }, 1);
+    });
+
+    it('does not cache responses forbidden to be stored', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { id: 1 }, headers: { 'cache-control': 'no-store' } });
+        const client = newClient(mock, new HttpCache());
+
+        await client.request('GET');
+        await client.request('GET');
+
+        mock.assertCalled({ }, 2);
+    });
+
+    it('revalidates stale responses conditionally', async () => {
+        const mock = new HttpMockTransport()
+        .on({ headers: { 'if-none-match': '"v1"' } }, { headers: { 'cache-control': 'max-age=0', etag: '"v1"' }, status: 304 })
+        .on({ }, { body: { id: 1 }, headers: { 'cache-control': 'max-age=0', etag: '"v1"' } });
+
+        const client = newClient(mock, new HttpCache());
+
+        await client.request('GET');
+        const response = await client.request('GET');
+
+        assert.equal(response.code, 200);
+        assert.deepEqual(response.body, { id: 1 });
+        mock.assertCalled({ headers: { 'if-none-match': '"v1"' } }, 1);
+    });
+
+    it('does not share private responses for credentials between clients', async () => {
+        const cache = new HttpCache();
+
+        const mock = new HttpMockTransport()
+        .on({ headers: { authorization: 'Bearer a' } }, { body: { user: 'a' }, headers: { 'cache-control': 'max-age=60' } })
+        .on({ headers: { authorization: 'Bearer b' } }, { body: { user: 'b' }, headers: { 'cache-control': 'max-age=60' } });
+
+        const clientA = newClient(mock, cache);
+        clientA.setHeader('Authorization', 'Bearer a');
+
+        const clientB = newClient(mock, cache);
+        clientB.setHeader('Authorization', 'Bearer b');
+
+        assert.deepEqual((await clientA.request('GET')).body, { user: 'a' });
+        assert.deepEqual((await clientB.request('GET')).body, { user: 'b' });
+    });
+
+    it('returns a copy of the cached body', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { tags: [ 'a' ] }, headers: { 'cache-control': 'max-age=60' } });
+        const client = newClient(mock, new HttpCache());
+
+        const response = await client.request('GET');
+        response.body.tags.push('b');
+
+        assert.deepEqual((await client.request('GET')).body, { tags: [ 'a' ] });
+    });
+
+    it('validates responses served from the cache', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { id: 'a' }, headers: { 'cache-control': 'max-age=60' } });
+        const client = newClient(mock, new HttpCache());
+        const validator = (body) => typeof body.id == 'number';
+
+        await client.request('GET');
+
+        await assert.rejects(client.request('GET', { throwErrors: true, validator }), ValidationError);
+        mock.assertCalled({ }, 1);
+    });
+
+    it('validates responses failing validation on every request', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { id: 'a' }, headers: { 'cache-control': 'max-age=60' } });
+        const client = newClient(mock, new HttpCache());
+        const validator = (body) => typeof body.id == 'number';
+
+        await assert.rejects(client.request('GET', { throwErrors: true, validator }), ValidationError);
+        await assert.rejects(client.request('GET', { throwErrors: true, validator }), ValidationError);
+    });
+});
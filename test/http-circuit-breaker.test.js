@@ -0,0 +1,85 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { CircuitOpenError, HttpCircuitBreaker, HttpJsonClient, HttpMockTransport } = require('../lib/cjs/module');
+
+const wait = (delay) => new Promise((resolve) => { setTimeout(resolve, delay); });
+
+describe('HttpCircuitBreaker', () => {
+    it('rejects requests without sending them while open', async () => {
+        const states = [ ];
+
+        const circuitBreaker = new HttpCircuitBreaker({
+            coolDown: 60000,
+            failureThreshold: 2,
+            onStateChange: (event) => { states.push(event.state); }
+        });
+
+        const mock = new HttpMockTransport().on({ }, { status: 500 });
+
+        const client = new HttpJsonClient(
+            'http://api.test/items',
+            30,
+            { circuitBreaker, throwErrors: true, transport: mock.transport }
+        );
+
+        await assert.rejects(client.request('GET'));
+        await assert.rejects(client.request('GET'));
+        await assert.rejects(client.request('GET'), CircuitOpenError);
+
+        assert.equal(circuitBreaker.getState('http://api.test/other'), 'open');
+        assert.deepEqual(states, [ 'open' ]);
+        mock.assertCalled({ }, 2);
+    });
+
+    it('closes again after a successful trial request', async () => {
+        const circuitBreaker = new HttpCircuitBreaker({ coolDown: 20, failureThreshold: 1 });
+
+        const mock = new HttpMockTransport()
+        .on({ }, { status: 503 }, 1)
+        .on({ }, { body: { ok: true } });
+
+        const client = new HttpJsonClient('http://api.test/items', 30, { circuitBreaker, transport: mock.transport });
+
+        await client.request('GET');
+        assert.equal(circuitBreaker.getState('http://api.test/'), 'open');
+
+        await wait(30);
+        assert.equal(circuitBreaker.getState('http://api.test/'), 'half-open');
+
+        assert.deepEqual((await client.request('GET')).body, { ok: true });
+        assert.equal(circuitBreaker.getState('http://api.test/'), 'closed');
+    });
+
+    it('tracks hosts separately', async () => {
+        const circuitBreaker = new HttpCircuitBreaker({ failureThreshold: 1 });
+
+        const mock = new HttpMockTransport()
+        .on({ path: '/a' }, { status: 500 })
+        .on({ path: '/b' }, { body: { } });
+
+        await new HttpJsonClient('http://a.test/a', 30, { circuitBreaker, transport: mock.transport }).request('GET');
+        await new HttpJsonClient('http://b.test/b', 30, { circuitBreaker, transport: mock.transport }).request('GET');
+
+        assert.equal(circuitBreaker.getState('http://a.test/'), 'open');
+        assert.equal(circuitBreaker.getState('http://b.test/'), 'closed');
+    });
+});
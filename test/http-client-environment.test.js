@@ -0,0 +1,66 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpJsonClient, HttpMockTransport, TimeoutError } = require('../lib/cjs/module');
+
+describe('HttpClient environment', () => {
+    it('resolves relative URLs against the base URL configured', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+
+        const client = new HttpJsonClient(
+            '/v1/items',
+            30,
+            { environment: { baseUrl: 'https://api.test/app/' }, transport: mock.transport }
+        );
+
+        await client.request('GET');
+
+        assert.equal(client.url, 'https://api.test/v1/items');
+        assert.equal(mock.calls[0].url, 'https://api.test/v1/items');
+    });
+
+    it('rejects relative URLs without a base URL', () => {
+        assert.throws(() => new HttpJsonClient('/v1/items'), /without a base URL/);
+    });
+
+    it('waits for timeouts with the timers configured', async () => {
+        const delays = [ ];
+
+        const timers = {
+            clearTimeout: (id) => { clearTimeout(id); },
+            setTimeout: (callback, delay) => {
+                delays.push(delay);
+                return setTimeout(callback, 0);
+            }
+        };
+
+        const mock = new HttpMockTransport().on({ }, { body: { }, delay: 60000 });
+
+        const client = new HttpJsonClient(
+            'https://api.test/items',
+            5,
+            { environment: { timers }, throwErrors: true, transport: mock.transport }
+        );
+
+        await assert.rejects(client.request('GET'), TimeoutError);
+        assert.deepEqual(delays, [ 5000 ]);
+    });
+});
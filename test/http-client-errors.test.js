@@ -0,0 +1,85 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const {
+    AbortError,
+    HttpClientError,
+    HttpJsonClient,
+    HttpMockTransport,
+    HttpStatusError,
+    NetworkError,
+    TimeoutError
+} = require('../lib/cjs/module');
+
+describe('HttpClient errors', () => {
+    it('rejects unsuccessful responses with a status error if enabled', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { reason: 'missing' }, status: 404, statusText: 'Not Found' });
+        const client = new HttpJsonClient('http://api.test/items', 30, { throwErrors: true, transport: mock.transport });
+
+        const error = await client.request('GET').catch((error) => error);
+
+        assert.ok(error instanceof HttpStatusError);
+        assert.ok(error instanceof HttpClientError);
+        assert.equal(error.code, 404);
+        assert.equal(error.message, '404 Not Found');
+        assert.deepEqual(error.body, { reason: 'missing' });
+    });
+
+    it('returns errors as the response body by default', async () => {
+        const mock = new HttpMockTransport().on({ }, { status: 500 });
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+
+        const response = await client.request('GET');
+
+        assert.equal(response.code, 500);
+        assert.ok(response.body instanceof HttpStatusError);
+
+        await assert.rejects(client.request('GET', { throwErrors: true }), HttpStatusError);
+    });
+
+    it('rejects transport failures with a network error', async () => {
+        const cause = new TypeError('Failed to fetch');
+        const mock = new HttpMockTransport().on({ }, { error: cause });
+        const client = new HttpJsonClient('http://api.test/items', 30, { throwErrors: true, transport: mock.transport });
+
+        const error = await client.request('GET').catch((error) => error);
+
+        assert.ok(error instanceof NetworkError);
+        assert.equal(error.cause, cause);
+    });
+
+    it('rejects requests exceeding the timeout with a timeout error', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { }, delay: 60000 });
+        const client = new HttpJsonClient('http://api.test/items', 30, { throwErrors: true, transport: mock.transport });
+
+        await assert.rejects(client.request('GET', { timeout: 0.01 }), TimeoutError);
+    });
+
+    it('rejects requests aborted with an abort error', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { }, delay: 60000 });
+        const client = new HttpJsonClient('http://api.test/items', 30, { throwErrors: true, transport: mock.transport });
+        const abortController = new AbortController();
+
+        setTimeout(() => { abortController.abort(); }, 10);
+
+        await assert.rejects(client.request('GET', { signal: abortController.signal }), AbortError);
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpJsonClient, HttpMockTransport } = require('../lib/cjs/module');
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+describe('HttpClient metrics', () => {
+    it('reports the metrics of each request', async () => {
+        const reports = [ ];
+
+        const mock = new HttpMockTransport()
+        .on({ }, { status: 503 }, 1)
+        .on({ }, { body: { id: 5 } });
+
+        const client = new HttpJsonClient(
+            'http://api.test/',
+            30,
+            {
+                onMetrics: (metrics) => reports.push(metrics),
+                retryPolicy: { baseDelay: 1, jitter: 0, maxAttempts: 2, methods: [ 'PUT' ] },
+                transport: mock.transport
+            }
+        );
+
+        await client.request('PUT', { data: { name: 'abc' }, url: 'items/{id}', variables: { id: 5 } });
+
+        assert.equal(reports.length, 1);
+
+        const metrics = reports[0];
+
+        assert.equal(metrics.method, 'PUT');
+        assert.equal(metrics.status, 200);
+        assert.equal(metrics.retries, 1);
+        assert.equal(metrics.url, 'http://api.test/items/5');
+        assert.equal(metrics.urlTemplate, 'items/{id}');
+        assert.equal(metrics.bytesSent, '{"name":"abc"}'.length);
+        assert.equal(metrics.bytesReceived, '{"id":5}'.length);
+        assert.equal(metrics.error, undefined);
+
+        for (const duration of [ 'body', 'headers', 'queue', 'total' ]) {
+            assert.ok(metrics.durations[duration] >= 0, duration);
+        }
+    });
+
+    it('reports the class name of errors', async () => {
+        const reports = [ ];
+        const mock = new HttpMockTransport().on({ }, { status: 404 });
+        const client = new HttpJsonClient('http://api.test/items', 30, { onMetrics: (metrics) => reports.push(metrics), transport: mock.transport });
+
+        await client.request('GET');
+
+        assert.equal(reports[0].status, 404);
+        assert.equal(reports[0].error, 'HttpStatusError');
+    });
+
+    it('does not fail requests if the metrics callback throws', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+
+        const client = new HttpJsonClient(
+            'http://api.test/items',
+            30,
+            { onMetrics: () => { throw new Error('Failed'); }, throwErrors: true, transport: mock.transport }
+        );
+
+        assert.equal((await client.request('GET')).code, 200);
+    });
+});
+
+describe('HttpClient trace context', () => {
+    it('sends the trace context provided', async () => {
+        const reports = [ ];
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+
+        const client = new HttpJsonClient(
+            'http://api.test/items',
+            30,
+            {
+                onMetrics: (metrics) => reports.push(metrics),
+                traceContext: () => ({ spanId: SPAN_ID, traceFlags: 1, traceId: TRACE_ID, traceState: { serialize: () => 'vendor=abc' } }),
+                transport: mock.transport
+            }
+        );
+
+        await client.request('GET');
+
+        assert.equal(mock.calls[0].headers.get('traceparent'), `00-${TRACE_ID}-${SPAN_ID}-01`);
+        assert.equal(mock.calls[0].headers.get('tracestate'), 'vendor=abc');
+        assert.equal(reports[0].traceparent, `00-${TRACE_ID}-${SPAN_ID}-01`);
+    });
+
+    it('ignores invalid trace contexts and headers given explicitly', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+        let traceContext = { spanId: SPAN_ID, traceId: '0'.repeat(32) };
+
+        const client = new HttpJsonClient('http://api.test/items', 30, { traceContext: () => traceContext, transport: mock.transport });
+
+        await client.request('GET');
+
+        traceContext = { spanId: SPAN_ID, traceId: TRACE_ID };
+        await client.request('GET', { headers: { traceparent: 'custom' } });
+
+        assert.equal(mock.calls[0].headers.get('traceparent'), null);
+        assert.equal(mock.calls[1].headers.get('traceparent'), 'custom');
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpJsonClient, HttpMockTransport } = require('../lib/cjs/module');
+
+describe('HttpClient middlewares', () => {
+    it('calls middlewares in the order registered', async () => {
+        const steps = [ ];
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+
+        const newMiddleware = (name) => async (context, next) => {
+            steps.push(`${name}:request`);
+            context.requestInit.headers.append('x-middleware', name);
+
+            const response = await next();
+            steps.push(`${name}:response`);
+
+            return response;
+        };
+
+        const client = new HttpJsonClient(
+            'http://api.test/items',
+            30,
+            { middlewares: [ newMiddleware('a') ], transport: mock.transport }
+        );
+
+        client.use(newMiddleware('b'));
+        await client.request('GET');
+
+        assert.deepEqual(steps, [ 'a:request', 'b:request', 'b:response', 'a:response' ]);
+        assert.equal(mock.calls[0].headers.get('x-middleware'), 'a, b');
+    });
+
+    it('lets middlewares answer requests without sending them', async () => {
+        const mock = new HttpMockTransport();
+
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+        client.use((context) => Promise.resolve({ body: { method: context.method }, code: 200, headers: { } }));
+
+        const response = await client.request('GET');
+
+        assert.deepEqual(response.body, { method: 'GET' });
+        assert.equal(mock.calls.length, 0);
+    });
+
+    it('lets middlewares change responses', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { id: 1 } });
+
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+
+        client.use(async (context, next) => {
+            const response = await next();
+            response.body = { ...response.body, seen: true };
+
+            return response;
+        });
+
+        assert.deepEqual((await client.request('GET')).body, { id: 1, seen: true });
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { getEventListeners } = require('node:events');
+const { describe, it } = require('node:test');
+
+const { HttpClient, HttpJsonClient, HttpMockTransport } = require('../lib/cjs/module');
+
+describe('HttpClient mirror policy', () => {
+    it('fails over to the next mirror and skips unhealthy ones', async () => {
+        const mock = new HttpMockTransport()
+        .on({ path: '/a' }, { status: 503 })
+        .on({ path: '/b' }, { body: { mirror: 'b' } });
+
+        const client = new HttpJsonClient(
+            'http://api.test/a',
+            30,
+            { mirrorPolicy: { mirrors: [ 'http://api.test/b' ] }, transport: mock.transport }
+        );
+
+        assert.deepEqual((await client.request('GET')).body, { mirror: 'b' });
+        assert.deepEqual((await client.request('GET')).body, { mirror: 'b' });
+
+        mock.assertCalled({ path: '/a' }, 1);
+        mock.assertCalled({ path: '/b' }, 2);
+    });
+
+    it('accepts the faster hedged attempt', async () => {
+        const mock = new HttpMockTransport()
+        .on({ path: '/a' }, { body: { mirror: 'a' }, delay: 500 })
+        .on({ path: '/b' }, { body: { mirror: 'b' } });
+
+        const client = new HttpJsonClient(
+            'http://api.test/a',
+            30,
+            { mirrorPolicy: { hedgeDelay: 10, mirrors: [ 'http://api.test/b' ] }, transport: mock.transport }
+        );
+
+        const started = Date.now();
+
+        assert.deepEqual((await client.request('GET')).body, { mirror: 'b' });
+        assert.ok(Date.now() - started < 500);
+    });
+});
+
+describe('HttpClient', () => {
+    it('removes abort listeners of settled requests', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: 'ok' });
+        const client = new HttpClient('http://api.test/items', 30, false, { transport: mock.transport });
+        const abortController = new AbortController();
+
+        for (let i = 0; i < 5; i++) {
+            await client.request('GET', { signal: abortController.signal });
+        }
+
+        assert.equal(getEventListeners(abortController.signal, 'abort').length, 0);
+    });
+
+    it('removes abort listeners of settled requests sent to mirrors', async () => {
+        const mock = new HttpMockTransport()
+        .on({ path: '/a' }, { body: { mirror: 'a' }, delay: 50 })
+        .on({ path: '/b' }, { body: { mirror: 'b' } });
+
+        const client = new HttpJsonClient(
+            'http://api.test/a',
+            30,
+            { mirrorPolicy: { hedgeDelay: 1, mirrors: [ 'http://api.test/b' ] }, transport: mock.transport }
+        );
+
+        const abortController = new AbortController();
+
+        for (let i = 0; i < 3; i++) {
+            await client.request('GET', { signal: abortController.signal });
+        }
+
+        assert.equal(getEventListeners(abortController.signal, 'abort').length, 0);
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpJsonClient, HttpMockTransport } = require('../lib/cjs/module');
+
+describe('HttpClient request options', () => {
+    it('applies headers to the request only', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+
+        client.setHeader('X-Client', 'a');
+
+        await client.request('GET', { headers: { 'X-Client': 'b', 'X-Request': '1' } });
+        await client.request('GET');
+
+        assert.equal(mock.calls[0].headers.get('x-client'), 'b');
+        assert.equal(mock.calls[0].headers.get('x-request'), '1');
+        assert.equal(mock.calls[1].headers.get('x-client'), 'a');
+        assert.equal(mock.calls[1].headers.get('x-request'), null);
+    });
+
+    it('passes fetch modes to the transport', async () => {
+        const inits = [ ];
+
+        const transport = async (request, init) => {
+            inits.push(init);
+            return new Response('{}', { headers: { 'content-type': 'application/json' } });
+        };
+
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport });
+
+        await client.request('GET', { cache: 'no-cache', credentials: 'include', mode: 'cors', redirect: 'error' });
+
+        assert.equal(inits[0].cache, 'no-cache');
+        assert.equal(inits[0].credentials, 'include');
+        assert.equal(inits[0].mode, 'cors');
+        assert.equal(inits[0].redirect, 'error');
+    });
+
+    it('sends query parameters and data given as options', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+
+        await client.request('POST', { data: { name: 'a' }, params: { dryRun: 1 } });
+
+        assert.deepEqual(mock.calls[0].query, { dryRun: '1' });
+        assert.equal(mock.calls[0].body, '{"name":"a"}');
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpClient, HttpMockTransport } = require('../lib/cjs/module');
+
+const requestQuery = async (params, queryEncoding) => {
+    const mock = new HttpMockTransport().on({ }, { body: '' });
+    const client = new HttpClient('http://api.test/items', 30, false, { queryEncoding, transport: mock.transport });
+
+    await client.request('GET', { params, separator: '&' });
+
+    return mock.calls[0].url.slice('http://api.test/items?'.length);
+};
+
+describe('HttpClient query encoding', () => {
+    const params = { a: [ 1, 2 ], empty: null, flag: true, name: 'x y' };
+
+    it('encodes arrays comma-separated and skips null values by default', async () => {
+        assert.equal(await requestQuery(params), 'a=1,2&flag=1&name=x+y');
+    });
+
+    it('encodes arrays in the format configured', async () => {
+        assert.equal(await requestQuery(params, { arrayFormat: 'repeat' }), 'a=1&a=2&flag=1&name=x+y');
+        assert.equal(await requestQuery(params, { arrayFormat: 'brackets' }), 'a%5B%5D=1&a%5B%5D=2&flag=1&name=x+y');
+        assert.equal(await requestQuery(params, { arrayFormat: 'indices' }), 'a%5B0%5D=1&a%5B1%5D=2&flag=1&name=x+y');
+    });
+
+    it('encodes null values as empty values if configured', async () => {
+        assert.equal(await requestQuery({ empty: null, zero: 0 }, { nullValues: 'empty' }), 'empty=&zero=0');
+    });
+
+    it('encodes nested objects, dates and booleans', async () => {
+        const since = new Date(Date.UTC(2024, 0, 2, 3, 4, 5));
+
+        assert.equal(
+            await requestQuery({ filter: { active: false, since } }),
+            'filter%5Bactive%5D=0&filter%5Bsince%5D=2024-01-02T03%3A04%3A05.000Z'
+        );
+    });
+
+    it('encodes arrays of objects with indices', async () => {
+        assert.equal(
+            await requestQuery({ sort: [ { field: 'a' }, { field: 'b' } ] }),
+            'sort%5B0%5D%5Bfield%5D=a&sort%5B1%5D%5Bfield%5D=b'
+        );
+    });
+
+    it('uses the serializer given', async () => {
+        const serializer = (params, separator) => Object.keys(params).map((key) => `${key}:${params[key]}`).join(separator);
+        assert.equal(await requestQuery({ a: 1, b: 2 }, { serializer }), 'a:1&b:2');
+    });
+
+    it('encodes form-urlencoded request data with the query encoding', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: '' });
+
+        const client = new HttpClient(
+            'http://api.test/items',
+            30,
+            false,
+            { queryEncoding: { arrayFormat: 'brackets' }, transport: mock.transport }
+        );
+
+        await client.request('POST', { data: { a: [ 1, 2 ], flag: false } });
+
+        assert.equal(mock.calls[0].body, 'a%5B%5D=1&a%5B%5D=2&flag=0');
+        assert.match(mock.calls[0].headers.get('content-type'), /^application\/x-www-form-urlencoded/);
+    });
+});
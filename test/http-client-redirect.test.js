@@ -0,0 +1,109 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpJsonClient, HttpMockTransport, RedirectError } = require('../lib/cjs/module');
+
+describe('HttpClient redirect policy', () => {
+    it('follows redirects and reports them', async () => {
+        const mock = new HttpMockTransport()
+        .on({ path: '/old' }, { headers: { location: '/new' }, status: 301 })
+        .on({ path: '/new' }, { body: { moved: true } });
+
+        const client = new HttpJsonClient('http://api.test/old', 30, { redirectPolicy: { }, transport: mock.transport });
+        const response = await client.request('GET');
+
+        assert.deepEqual(response.body, { moved: true });
+        assert.deepEqual(
+            response.redirects,
+            [ { code: 301, from: 'http://api.test/old', method: 'GET', to: 'http://api.test/new' } ]
+        );
+    });
+
+    it('removes credentials on redirects to another origin', async () => {
+        const mock = new HttpMockTransport()
+        .on({ path: '/old' }, { headers: { location: 'http://other.test/new' }, status: 302 })
+        .on({ path: '/new' }, { body: { } });
+
+        const client = new HttpJsonClient('http://api.test/old', 30, { redirectPolicy: { }, transport: mock.transport });
+        client.setHeader('Authorization', 'Bearer secret');
+
+        await client.request('GET');
+
+        assert.equal(mock.calls[0].headers.get('authorization'), 'Bearer secret');
+        assert.equal(mock.calls[1].headers.get('authorization'), null);
+    });
+
+    it('requests the target of "303 See Other" without a body', async () => {
+        const mock = new HttpMockTransport()
+        .on({ path: '/items' }, { headers: { location: '/items/1' }, status: 303 })
+        .on({ path: '/items/1' }, { body: { id: 1 } });
+
+        const client = new HttpJsonClient('http://api.test/items', 30, { redirectPolicy: { }, transport: mock.transport });
+        const response = await client.request('POST', { data: { name: 'a' } });
+
+        assert.deepEqual(response.body, { id: 1 });
+        assert.equal(mock.calls[1].method, 'GET');
+        assert.equal(mock.calls[1].body, undefined);
+        assert.equal(mock.calls[1].headers.get('content-type'), null);
+    });
+
+    it('rejects if the maximum number of redirects is exceeded', async () => {
+        const mock = new HttpMockTransport().on({ path: '/loop' }, { headers: { location: '/loop' }, status: 302 });
+
+        const client = new HttpJsonClient(
+            'http://api.test/loop',
+            30,
+            { redirectPolicy: { maxRedirects: 2 }, throwErrors: true, transport: mock.transport }
+        );
+
+        await assert.rejects(client.request('GET'), RedirectError);
+        mock.assertCalled({ path: '/loop' }, 3);
+    });
+
+    it('falls back to redirects by fetch() for opaque redirects', async () => {
+        const modes = [ ];
+
+        const transport = async (request, init) => {
+            modes.push(init.redirect);
+
+            if (init.redirect === 'manual') {
+                const response = new Response(null, { status: 200 });
+
+                Object.defineProperty(response, 'status', { value: 0 });
+                Object.defineProperty(response, 'type', { value: 'opaqueredirect' });
+
+                return response;
+            }
+
+            return new Response('{}', { headers: { 'content-type': 'application/json' }, status: 200 });
+        };
+
+        const client = new HttpJsonClient('http://api.test/old', 30, { redirectPolicy: { }, throwErrors: true, transport });
+
+        await client.request('GET');
+        await client.request('GET');
+
+        assert.deepEqual(modes, [ 'manual', 'follow', undefined ]);
+
+        const postClient = new HttpJsonClient('http://api.test/old', 30, { redirectPolicy: { }, throwErrors: true, transport });
+        await assert.rejects(postClient.request('POST', { data: { } }), RedirectError);
+    });
+});
@@ -0,0 +1,103 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { AbortError, HttpJsonClient, HttpMockTransport, HttpStatusError } = require('../lib/cjs/module');
+
+describe('HttpClient retry policy', () => {
+    it('retries responses with a retryable status', async () => {
+        const mock = new HttpMockTransport()
+        .on({ method: 'GET' }, { status: 503 }, 2)
+        .on({ method: 'GET' }, { body: { ok: true } });
+
+        const client = new HttpJsonClient(
+            'http://api.test/items',
+            30,
+            { retryPolicy: { baseDelay: 1, jitter: 0, maxAttempts: 3 }, transport: mock.transport }
+        );
+
+        const response = await client.request('GET');
+
+        assert.equal(response.code, 200);
+        assert.deepEqual(response.body, { ok: true });
+        mock.assertCalled({ method: 'GET' }, 3);
+    });
+
+    it('waits as long as requested by "Retry-After"', async () => {
+        const delays = [ ];
+
+        const timers = {
+            clearTimeout: (id) => { clearTimeout(id); },
+            setTimeout: (callback, delay) => {
+                delays.push(delay);
+                return setTimeout(callback, 0);
+            }
+        };
+
+        const mock = new HttpMockTransport()
+        .on({ }, { headers: { 'retry-after': '2' }, status: 429 }, 1)
+        .on({ }, { body: { } });
+
+        const client = new HttpJsonClient(
+            'http://api.test/items',
+            0,
+            {
+                environment: { timers },
+                retryPolicy: { baseDelay: 1, jitter: 0, maxAttempts: 2 },
+                transport: mock.transport
+            }
+        );
+
+        assert.equal((await client.request('GET')).code, 200);
+        assert.deepEqual(delays, [ 2000 ]);
+    });
+
+    it('does not retry methods not listed', async () => {
+        const mock = new HttpMockTransport().on({ method: 'POST' }, { status: 503 });
+
+        const client = new HttpJsonClient(
+            'http://api.test/items',
+            30,
+            { retryPolicy: { baseDelay: 1, jitter: 0, maxAttempts: 3 }, throwErrors: true, transport: mock.transport }
+        );
+
+        await assert.rejects(client.request('POST', { data: { a: 1 } }), HttpStatusError);
+        mock.assertCalled({ method: 'POST' }, 1);
+    });
+
+    it('stops waiting for the next attempt if aborted', async () => {
+        const mock = new HttpMockTransport().on({ method: 'GET' }, { status: 503 });
+
+        const client = new HttpJsonClient(
+            'http://api.test/items',
+            30,
+            { retryPolicy: { baseDelay: 60000, jitter: 0, maxAttempts: 3 }, throwErrors: true, transport: mock.transport }
+        );
+
+        const abortController = new AbortController();
+        const started = Date.now();
+
+        setTimeout(() => { abortController.abort(); }, 20);
+
+        await assert.rejects(client.request('GET', { signal: abortController.signal }), AbortError);
+        assert.ok(Date.now() - started < 5000);
+        mock.assertCalled({ method: 'GET' }, 1);
+    });
+});
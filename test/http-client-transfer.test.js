@@ -0,0 +1,94 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpClient, HttpJsonClient, HttpMockTransport, ResponseTooLargeError } = require('../lib/cjs/module');
+
+const newStream = (chunks) => new ReadableStream({
+    start: (controller) => {
+        for (const chunk of chunks) {
+            controller.enqueue(new TextEncoder().encode(chunk));
+        }
+
+        controller.close();
+    }
+});
+
+describe('HttpClient transfers', () => {
+    it('reports the download progress', async () => {
+        const progress = [ ];
+
+        const mock = new HttpMockTransport().on(
+            { },
+            { body: newStream([ 'abc', 'de' ]), headers: { 'content-length': '5', 'content-type': 'text/plain' } }
+        );
+
+        const client = new HttpClient('http://api.test/file', 30, false, { transport: mock.transport });
+        const response = await client.request('GET', { onDownloadProgress: (event) => { progress.push(event); } });
+
+        assert.equal(await response.body.text(), 'abcde');
+        assert.deepEqual(progress, [ { loaded: 3, total: 5 }, { loaded: 5, total: 5 } ]);
+    });
+
+    it('reports the upload progress', async () => {
+        const progress = [ ];
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+        await client.request('POST', { data: { a: 'bc' }, onUploadProgress: (event) => { progress.push(event); } });
+
+        assert.deepEqual(progress, [ { loaded: 0, total: 10 }, { loaded: 10, total: 10 } ]);
+    });
+
+    it('rejects responses announcing more than the maximum size', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: 'x'.repeat(20), headers: { 'content-length': '20' } });
+
+        const client = new HttpClient('http://api.test/file', 30, false, { throwErrors: true, transport: mock.transport });
+
+        await assert.rejects(client.request('GET', { maxResponseSize: 10 }), ResponseTooLargeError);
+    });
+
+    it('rejects responses exceeding the maximum size while reading', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: newStream([ 'x'.repeat(8), 'x'.repeat(8) ]) });
+
+        const client = new HttpClient(
+            'http://api.test/file',
+            30,
+            false,
+            { maxResponseSize: 10, throwErrors: true, transport: mock.transport }
+        );
+
+        await assert.rejects(client.request('GET'), ResponseTooLargeError);
+    });
+
+    it('streams response bodies as chunks if requested', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: newStream([ 'ab', 'c' ]) });
+
+        const client = new HttpClient('http://api.test/file', 30, false, { transport: mock.transport });
+        const response = await client.request('GET', { stream: true });
+        const chunks = [ ];
+
+        for await (const chunk of response.body) {
+            chunks.push(new TextDecoder().decode(chunk));
+        }
+
+        assert.deepEqual(chunks, [ 'ab', 'c' ]);
+    });
+});
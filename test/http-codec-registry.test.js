@@ -0,0 +1,102 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const {
+    HttpClient,
+    HttpCodecRegistry,
+    HttpFormCodec,
+    HttpJsonCodec,
+    HttpMockTransport,
+    HttpTextCodec
+} = require('../lib/cjs/module');
+
+describe('HttpFormCodec', () => {
+    it('decodes data encoded with repeated keys as sent', async () => {
+        const codec = new HttpFormCodec({ arrayFormat: 'repeat' });
+        const data = { name: 'x y', tags: [ 'a', 'b&c' ] };
+
+        const body = codec.encode(data);
+
+        assert.equal(body, 'name=x+y&tags=a&tags=b%26c');
+        assert.deepEqual(await codec.decode(new Response(body)), data);
+    });
+
+    it('encodes request data like HTTP client query parameters', async () => {
+        const data = { a: [ 1, 2 ], empty: null, filter: { active: true }, since: new Date(Date.UTC(2024, 0, 1)) };
+        const mock = new HttpMockTransport().on({ }, { body: '' });
+        const client = new HttpClient('http://api.test/items', 30, false, { transport: mock.transport });
+
+        await client.request('GET', { params: data, separator: '&' });
+
+        assert.equal(new HttpFormCodec().encode(data), mock.calls[0].url.slice('http://api.test/items?'.length));
+        assert.equal(new HttpFormCodec().encode(data), 'a=1,2&filter%5Bactive%5D=1&since=2024-01-01T00%3A00%3A00.000Z');
+    });
+});
+
+describe('HttpCodecRegistry', () => {
+    it('lists media types ordered by their quality as the "Accept" header', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: '' });
+        const codecs = new HttpCodecRegistry().register('application/xml', new HttpTextCodec(), 0.8);
+        const client = new HttpClient('http://api.test/items', 30, false, { codecs, transport: mock.transport });
+
+        await client.request('GET');
+
+        assert.equal(
+            mock.calls[0].headers.get('accept'),
+            'application/json, application/problem+json, application/xml;q=0.8, application/x-www-form-urlencoded;q=0.5, text/plain;q=0.5'
+        );
+
+        assert.equal(new HttpCodecRegistry(false).getAcceptHeader(), undefined);
+    });
+
+    it('resolves codecs by media type, structured syntax suffix and wildcard', () => {
+        const textCodec = new HttpTextCodec();
+        const codecs = new HttpCodecRegistry(false).register('application/json', new HttpJsonCodec()).register('text/*', textCodec);
+
+        assert.ok(codecs.getCodec('application/vnd.api+json; charset=utf-8') instanceof HttpJsonCodec);
+        assert.equal(codecs.getCodec('text/csv'), textCodec);
+        assert.equal(codecs.getCodec('image/png'), undefined);
+        assert.equal(codecs.unregister('text/*').getCodec('text/csv'), undefined);
+    });
+
+    it('decodes responses with the codec of their content type', async () => {
+        const mock = new HttpMockTransport()
+        .on({ path: '/form' }, { body: 'a=1&a=2', headers: { 'content-type': 'application/x-www-form-urlencoded' } })
+        .on({ path: '/text' }, { body: new Uint8Array([ 0x63, 0x61, 0x66, 0xe9 ]), headers: { 'content-type': 'text/plain; charset=iso-8859-1' } });
+
+        const client = new HttpClient('http://api.test/', 30, false, { codecs: new HttpCodecRegistry(), transport: mock.transport });
+
+        assert.deepEqual((await client.request('GET', { url: '/form' })).body, { a: [ '1', '2' ] });
+        assert.equal((await client.request('GET', { url: '/text' })).body, 'café');
+    });
+
+    it('encodes request data with the codec of the content type given', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: '' });
+        const client = new HttpClient('http://api.test/items', 30, false, { codecs: new HttpCodecRegistry(), transport: mock.transport });
+
+        await client.request('POST', { data: { a: [ 1 ] }, headers: { 'Content-Type': 'application/json' } });
+        await client.request('POST', { data: { a: [ 1, 2 ] } });
+
+        assert.equal(mock.calls[0].body, '{"a":[1]}');
+        assert.equal(mock.calls[1].body, 'a=1,2');
+        assert.equal(mock.calls[1].headers.get('content-type'), 'application/x-www-form-urlencoded');
+    });
+});
@@ -0,0 +1,91 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpClient, HttpCookieJar, HttpMockTransport } = require('../lib/cjs/module');
+
+describe('HttpCookieJar', () => {
+    it('matches cookies by domain and path', () => {
+        const jar = new HttpCookieJar();
+
+        assert.equal(jar.setCookie('http://www.example.test/app/login', 'dir=1'), true);
+        assert.equal(jar.setCookie('http://www.example.test/app/login', 'domain=1; Domain=example.test; Path=/'), true);
+        assert.equal(jar.setCookie('http://www.example.test/', 'other=1; Domain=other.test'), false);
+        assert.equal(jar.setCookie('http://www.example.test/', 'tld=1; Domain=test'), false);
+
+        assert.equal(jar.getCookieHeader('http://www.example.test/app/items'), 'dir=1; domain=1');
+        assert.equal(jar.getCookieHeader('http://api.example.test/app/items'), 'domain=1');
+        assert.equal(jar.getCookieHeader('http://www.example.test/application'), 'domain=1');
+        assert.equal(jar.getCookieHeader('http://example.test.evil/'), undefined);
+    });
+
+    it('sends secure cookies to secure URLs only and removes expired cookies', () => {
+        const jar = new HttpCookieJar();
+
+        jar.setCookie('https://example.test/', 'secure=1; Secure');
+        jar.setCookie('https://example.test/', 'session=1');
+        jar.setCookie('https://example.test/', 'session=1; Max-Age=0');
+
+        assert.equal(jar.getCookieHeader('http://example.test/'), undefined);
+        assert.equal(jar.getCookieHeader('https://example.test/'), 'secure=1');
+    });
+
+    it('restores cookies serialized as JSON', () => {
+        const jar = new HttpCookieJar();
+
+        jar.setCookie('http://example.test/', 'session=abc; HttpOnly');
+
+        const restoredJar = HttpCookieJar.fromJSON(JSON.stringify(jar));
+
+        assert.equal(restoredJar.getCookieHeader('http://example.test/'), 'session=abc');
+        assert.equal(restoredJar.getCookies()[0].httpOnly, true);
+    });
+
+    it('stores cookies received and sends them with later requests', async () => {
+        const mock = new HttpMockTransport()
+        .on({ path: '/login' }, { headers: { 'set-cookie': 'session=abc; Path=/' } })
+        .on({ path: '/items' }, { body: '' });
+
+        const cookieJar = new HttpCookieJar();
+        const client = new HttpClient('http://api.test/', 30, false, { cookieJar, transport: mock.transport });
+
+        await client.request('POST', { url: '/login' });
+        await client.request('GET', { headers: { Cookie: 'custom=1' }, url: '/items' });
+
+        assert.equal(mock.calls[1].headers.get('cookie'), 'custom=1; session=abc');
+    });
+
+    it('stores cookies of redirect responses and sends them to the redirect target', async () => {
+        const mock = new HttpMockTransport()
+        .on({ path: '/login' }, { headers: { 'location': '/home', 'set-cookie': 'session=abc; Path=/' }, status: 302 })
+        .on({ path: '/home' }, { body: 'welcome' });
+
+        const cookieJar = new HttpCookieJar();
+        const client = new HttpClient('http://api.test/', 30, false, { cookieJar, transport: mock.transport });
+
+        const response = await client.request('POST', { data: { user: 'a' }, url: '/login' });
+
+        assert.equal(response.code, 200);
+        assert.deepEqual(response.redirects, [ { code: 302, from: 'http://api.test/login', method: 'GET', to: 'http://api.test/home' } ]);
+        assert.equal(mock.calls.length, 2);
+        assert.equal(mock.calls[1].headers.get('cookie'), 'session=abc');
+        assert.equal(cookieJar.getCookieHeader('http://api.test/'), 'session=abc');
+    });
+});
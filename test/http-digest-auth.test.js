@@ -0,0 +1,77 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { createHash } = require('node:crypto');
+const { describe, it } = require('node:test');
+
+const { HttpJsonClient, HttpMockTransport } = require('../lib/cjs/module');
+
+const md5 = (value) => createHash('md5').update(value).digest('hex');
+
+describe('HttpClient Digest authentication', () => {
+    it('answers the challenge and reuses it for the origin', async () => {
+        const challenge = 'Digest realm="test", nonce="abc123", qop="auth", opaque="xyz"';
+
+        const mock = new HttpMockTransport()
+        .on({ headers: { authorization: /^Digest / } }, { body: { ok: true } })
+        .on({ }, { headers: { 'www-authenticate': challenge }, status: 401 });
+
+        const client = new HttpJsonClient('http://api.test/private?id=1', 30, { transport: mock.transport });
+        client.setDigestAuth('user', 'secret');
+
+        const response = await client.request('GET');
+        await client.request('GET');
+
+        assert.deepEqual(response.body, { ok: true });
+        assert.equal(mock.calls.length, 3);
+        assert.equal(mock.calls[0].headers.get('authorization'), null);
+
+        const authorization = mock.calls[1].headers.get('authorization');
+        const params = { };
+
+        authorization.slice(7).replace(/(\w+)=("([^"]*)"|[^,\s]*)/g, (match, name, value, quotedValue) => {
+            params[name] = (quotedValue === undefined ? value : quotedValue);
+            return match;
+        });
+
+        const ha1 = md5('user:test:secret');
+        const ha2 = md5('GET:/private?id=1');
+
+        assert.equal(params.username, 'user');
+        assert.equal(params.uri, '/private?id=1');
+        assert.equal(params.opaque, 'xyz');
+        assert.equal(
+            params.response,
+            md5(`${ha1}:abc123:${params.nc}:${params.cnonce}:auth:${ha2}`)
+        );
+
+        assert.match(mock.calls[2].headers.get('authorization'), /^Digest .*nc=00000002/);
+    });
+
+    it('sends Basic authentication preemptively if configured', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+
+        const client = new HttpJsonClient('http://api.test/private', 30, { transport: mock.transport });
+        client.setBasicAuth('user', 'secret');
+
+        await client.request('GET');
+
+        assert.equal(mock.calls[0].headers.get('authorization'), 'Basic ' + Buffer.from('user:secret').toString('base64'));
+    });
+});
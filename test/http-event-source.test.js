@@ -0,0 +1,122 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpClient, HttpEventSource, HttpMockTransport } = require('../lib/cjs/module');
+
+const newEventStream = (chunks) => ({
+    body: new ReadableStream({
+        start: (controller) => {
+            for (const chunk of chunks) {
+                controller.enqueue(new TextEncoder().encode(chunk));
+            }
+
+            controller.close();
+        }
+    }),
+    headers: { 'content-type': 'text/event-stream' }
+});
+
+describe('HttpEventSource', () => {
+    it('parses events split across chunks', async () => {
+        const mock = new HttpMockTransport().on({ }, newEventStream([
+            '﻿: comment\r\ndata: first\r',
+            '\ndata: line\n\nevent: update\nid: 7\ndata:{"a":1}\n\n',
+            'data: incomplete'
+        ]));
+
+        const client = new HttpClient('http://api.test/events', 30, false, { transport: mock.transport });
+        const eventSource = new HttpEventSource(client, { reconnect: false });
+        const events = [ ];
+
+        for await (const event of eventSource) {
+            events.push(event);
+        }
+
+        assert.deepEqual(events, [
+            { data: 'first\nline', id: '', type: 'message' },
+            { data: '{"a":1}', id: '7', type: 'update' }
+        ]);
+
+        assert.equal(mock.calls[0].headers.get('accept'), 'text/event-stream');
+        assert.equal(eventSource.readyState, 'closed');
+    });
+
+    it('reconnects with the ID of the last event received', async () => {
+        const errors = [ ];
+
+        const mock = new HttpMockTransport()
+        .on({ }, newEventStream([ 'retry: 1\nid: 1\ndata: a\n\n' ]), 1)
+        .on({ }, { error: new TypeError('Failed to fetch') }, 1)
+        .on({ headers: { 'last-event-id': '1' } }, newEventStream([ 'id: 2\ndata: b\n\n' ]), 1)
+        .on({ }, { status: 204 });
+
+        const client = new HttpClient('http://api.test/events', 30, false, { transport: mock.transport });
+        const eventSource = new HttpEventSource(client, { onError: (error) => { errors.push(error.name); } });
+        const received = [ ];
+
+        eventSource.on('message', (event) => { received.push(event.data); });
+        await eventSource.open();
+
+        assert.deepEqual(received, [ 'a', 'b' ]);
+        assert.deepEqual(errors, [ 'NetworkError' ]);
+        assert.equal(mock.calls.length, 4);
+        assert.equal(mock.calls[3].headers.get('last-event-id'), '2');
+    });
+
+    it('keeps the connection open if a listener throws', async () => {
+        const thrown = [ ];
+
+        const timers = {
+            clearTimeout: (id) => { clearTimeout(id); },
+            setTimeout: (callback, delay) => setTimeout(
+                () => {
+                    try {
+                        callback();
+                    } catch (error) {
+                        thrown.push(error.message);
+                    }
+                },
+                delay
+            )
+        };
+
+        const mock = new HttpMockTransport().on({ }, newEventStream([ 'data: a\n\ndata: b\n\n' ]));
+
+        const client = new HttpClient('http://api.test/events', 30, false, { environment: { timers }, transport: mock.transport });
+        const eventSource = new HttpEventSource(client, { reconnect: false });
+        const received = [ ];
+
+        eventSource.on('message', (event) => {
+            if (event.data === 'a') {
+                throw new Error('listener failed');
+            }
+        });
+
+        eventSource.on('message', (event) => { received.push(event.data); });
+
+        await eventSource.open();
+        await new Promise((resolve) => { setTimeout(resolve, 10); });
+
+        assert.deepEqual(received, [ 'a', 'b' ]);
+        assert.deepEqual(thrown, [ 'listener failed' ]);
+        assert.equal(mock.calls.length, 1);
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { DecodeError, HttpJsonClient, HttpMockTransport, HttpStatusError, ValidationError } = require('../lib/cjs/module');
+
+const newStream = (chunks) => new ReadableStream({
+    start: (controller) => {
+        for (const chunk of chunks) {
+            controller.enqueue(new TextEncoder().encode(chunk));
+        }
+
+        controller.close();
+    }
+});
+
+const readAll = async (iterable) => {
+    const _return = [ ];
+
+    for await (const record of iterable) {
+        _return.push(record);
+    }
+
+    return _return;
+};
+
+describe('HttpJsonClient streaming', () => {
+    it('decodes NDJSON responses record by record', async () => {
+        const mock = new HttpMockTransport().on({ }, {
+            body: newStream([ '{"a":1}\n{"b"', ':2}\n\n', '{"c":3}' ]),
+            headers: { 'content-type': 'application/x-ndjson' }
+        });
+
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+        const response = await client.request('GET');
+
+        assert.deepEqual(await readAll(response.body), [ { a: 1 }, { b: 2 }, { c: 3 } ]);
+    });
+
+    it('decodes JSON text sequences', async () => {
+        const mock = new HttpMockTransport().on({ }, {
+            body: newStream([ '\u001e{"a":1}\n\u001e', '[2]\n' ]),
+            headers: { 'content-type': 'application/json-seq' }
+        });
+
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+        const response = await client.request('GET');
+
+        assert.deepEqual(await readAll(response.body), [ { a: 1 }, [ 2 ] ]);
+    });
+
+    it('validates and decodes each record while read', async () => {
+        const newClient = (body) => new HttpJsonClient(
+            'http://api.test/items',
+            30,
+            {
+                transport: new HttpMockTransport().on(
+                    { },
+                    { body: newStream([ body ]), headers: { 'content-type': 'application/x-ndjson' } }
+                ).transport
+            }
+        );
+
+        const validator = (record) => typeof record.id == 'number';
+
+        const validated = await newClient('{"id":1}\n{"id":"x"}\n').request('GET', { validator });
+        await assert.rejects(readAll(validated.body), ValidationError);
+
+        const invalid = await newClient('{"id":1}\n{invalid\n').request('GET');
+        await assert.rejects(readAll(invalid.body), DecodeError);
+    });
+
+    it('sends async iterable data as NDJSON', async () => {
+        const mock = new HttpMockTransport().on({ method: 'POST' }, { body: { } });
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+
+        async function* generateItems() {
+            yield { a: 1 };
+            yield { b: 2 };
+        }
+
+        await client.request('POST', { data: generateItems() });
+
+        assert.equal(mock.calls[0].headers.get('content-type'), 'application/x-ndjson');
+        assert.equal(await new Response(mock.calls[0].body).text(), '{"a":1}\n{"b":2}\n');
+    });
+
+    it('does not retry streamed request data', async () => {
+        const mock = new HttpMockTransport().on({ method: 'PUT' }, { status: 503 });
+
+        const client = new HttpJsonClient(
+            'http://api.test/items',
+            30,
+            { retryPolicy: { baseDelay: 1, jitter: 0, maxAttempts: 3 }, throwErrors: true, transport: mock.transport }
+        );
+
+        async function* generateItems() {
+            yield { a: 1 };
+            yield { b: 2 };
+        }
+
+        await assert.rejects(client.request('PUT', { data: generateItems() }), HttpStatusError);
+        mock.assertCalled({ method: 'PUT' }, 1);
+    });
+});
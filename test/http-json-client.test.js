@@ -0,0 +1,72 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { DecodeError, HttpJsonClient, HttpMockTransport, HttpStatusError, ValidationError } = require('../lib/cjs/module');
+
+describe('HttpJsonClient validation', () => {
+    const isUser = (body) => (typeof body == 'object' && body !== null && typeof body.name == 'string');
+
+    it('returns bodies passing the validator', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { name: 'a' } });
+        const client = new HttpJsonClient('http://api.test/users/1', 30, { transport: mock.transport });
+
+        assert.deepEqual((await client.request('GET', { validator: isUser })).body, { name: 'a' });
+    });
+
+    it('rejects bodies failing the validator', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { name: 1 } });
+        const client = new HttpJsonClient('http://api.test/users/1', 30, { throwErrors: true, transport: mock.transport });
+
+        const error = await client.request('GET', { validator: isUser }).catch((error) => error);
+
+        assert.ok(error instanceof ValidationError);
+        assert.deepEqual(error.body, { name: 1 });
+    });
+
+    it('reports the messages returned or thrown by the validator', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+        const client = new HttpJsonClient('http://api.test/users/1', 30, { throwErrors: true, transport: mock.transport });
+
+        await assert.rejects(
+            client.request('GET', { validator: () => [ 'name missing', 'id missing' ] }),
+            { errors: [ 'name missing', 'id missing' ], name: 'ValidationError' }
+        );
+
+        await assert.rejects(
+            client.request('GET', { validator: () => { throw new Error('invalid'); } }),
+            { errors: [ 'invalid' ], name: 'ValidationError' }
+        );
+    });
+
+    it('does not validate bodies of unsuccessful responses', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { error: 'missing' }, status: 404 });
+        const client = new HttpJsonClient('http://api.test/users/1', 30, { throwErrors: true, transport: mock.transport });
+
+        await assert.rejects(client.request('GET', { validator: isUser }), HttpStatusError);
+    });
+
+    it('rejects invalid JSON with a decode error', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: '{ invalid', headers: { 'content-type': 'application/json' } });
+        const client = new HttpJsonClient('http://api.test/users/1', 30, { throwErrors: true, transport: mock.transport });
+
+        await assert.rejects(client.request('GET'), DecodeError);
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpClient, HttpJsonClient, HttpMockTransport, NetworkError } = require('../lib/cjs/module');
+
+describe('HttpMockTransport', () => {
+    it('matches routes by method, path, query and headers', async () => {
+        const mock = new HttpMockTransport()
+        .on({ headers: { 'x-tenant': 'a' }, method: 'GET', path: '/items', query: { page: /^\d+$/ } }, { body: { route: 1 } })
+        .on({ path: /^\/items/ }, { body: { route: 2 } });
+
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+
+        const matching = await client.request('GET', { headers: { 'X-Tenant': 'a' }, params: { page: 2 } });
+        const other = await client.request('GET', { params: { page: 'x' } });
+
+        assert.deepEqual(matching.body, { route: 1 });
+        assert.deepEqual(other.body, { route: 2 });
+
+        assert.deepEqual(mock.calls[0].query, { page: '2' });
+        assert.equal(mock.calls[0].path, '/items');
+    });
+
+    it('generates responses by callbacks and limits routes by the number of calls', async () => {
+        const mock = new HttpMockTransport()
+        .on({ }, { status: 503 }, 1)
+        .on({ }, (call) => ({ body: { method: call.method } }));
+
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+
+        assert.equal((await client.request('GET')).code, 503);
+        assert.deepEqual((await client.request('DELETE')).body, { method: 'DELETE' });
+
+        mock.assertDone();
+    });
+
+    it('fails requests with the error given', async () => {
+        const mock = new HttpMockTransport().on({ }, { error: new TypeError('Failed to fetch') });
+        const client = new HttpClient('http://api.test/items', 30, false, { throwErrors: true, transport: mock.transport });
+
+        await assert.rejects(client.request('GET'), NetworkError);
+    });
+
+    it('delays responses until aborted', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: 'late', delay: 60000 });
+        const abortController = new AbortController();
+
+        setTimeout(() => { abortController.abort(); }, 10);
+
+        await assert.rejects(
+            mock.transport(new Request('http://api.test/items'), { signal: abortController.signal }),
+            { name: 'AbortError' }
+        );
+    });
+
+    it('asserts the calls received', async () => {
+        const mock = new HttpMockTransport().on({ method: 'GET' }, { body: '' }, 2);
+
+        await mock.transport(new Request('http://api.test/items'));
+
+        assert.throws(() => { mock.assertDone(); }, /Expected 2 request\(s\)/);
+        assert.throws(() => { mock.assertNotCalled({ method: 'GET' }); });
+        assert.doesNotThrow(() => { mock.assertCalled({ method: 'GET', path: '/items' }, 1); });
+
+        await assert.rejects(mock.transport(new Request('http://api.test/items', { method: 'POST' })), /No mock transport route/);
+    });
+});
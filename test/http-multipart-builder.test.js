@@ -0,0 +1,83 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpJsonClient, HttpMockTransport, HttpMultipartBuilder } = require('../lib/cjs/module');
+
+const newClient = (mock) => new HttpJsonClient('http://api.test/uploads', 30, { transport: mock.transport });
+
+describe('HttpMultipartBuilder', () => {
+    it('sends objects containing files as multipart/form-data', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+
+        await newClient(mock).request('POST', {
+            data: {
+                attachment: HttpMultipartBuilder.file('hello', 'hello.txt', 'text/plain'),
+                meta: { tags: [ 'a', 'b' ] },
+                public: true,
+                raw: new Uint8Array([ 1, 2 ]),
+                title: 'x'
+            }
+        });
+
+        const body = mock.calls[0].body;
+
+        assert.ok(body instanceof FormData);
+        assert.equal(body.get('title'), 'x');
+        assert.equal(body.get('public'), '1');
+        assert.deepEqual(body.getAll('meta[tags]'), [ 'a', 'b' ]);
+        assert.equal(body.get('attachment').name, 'hello.txt');
+        assert.equal(body.get('attachment').type, 'text/plain');
+        assert.equal(await body.get('attachment').text(), 'hello');
+        assert.equal(body.get('raw').name, 'blob');
+        assert.equal(body.get('raw').size, 2);
+    });
+
+    it('sends objects with a "content" member as JSON', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+        const client = newClient(mock);
+
+        await client.request('POST', { data: { content: 'text' } });
+        await client.request('POST', { data: { title: 'x', content: 'hello' } });
+        await client.request('POST', { data: { comment: { content: 'hi', author: 'me' } } });
+
+        assert.deepEqual(
+            mock.calls.map((call) => call.body),
+            [ '{"content":"text"}', '{"title":"x","content":"hello"}', '{"comment":{"content":"hi","author":"me"}}' ]
+        );
+
+        for (const call of mock.calls) {
+            assert.match(call.headers.get('content-type'), /^application\/json/);
+        }
+    });
+
+    it('passes "FormData" and "URLSearchParams" bodies through', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+        const client = newClient(mock);
+        const formData = new FormData();
+        const searchParams = new URLSearchParams({ a: '1' });
+
+        await client.request('POST', { data: formData });
+        await client.request('POST', { data: searchParams });
+
+        assert.equal(mock.calls[0].body, formData);
+        assert.equal(mock.calls[1].body, searchParams);
+    });
+});
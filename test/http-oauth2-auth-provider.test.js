@@ -0,0 +1,93 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpBearerAuthProvider, HttpJsonClient, HttpMockTransport, HttpOAuth2AuthProvider } = require('../lib/cjs/module');
+
+const newClient = (mock, authProvider) => new HttpJsonClient(
+    'http://api.test/items',
+    30,
+    { authProvider, transport: mock.transport }
+);
+
+const newOAuth2AuthProvider = (mock, options = { }) => new HttpOAuth2AuthProvider({
+    clientId: 'client',
+    clientSecret: 'secret',
+    grantType: 'client_credentials',
+    tokenUrl: 'http://auth.test/token',
+    transport: mock.transport,
+    ...options
+});
+
+describe('HttpBearerAuthProvider', () => {
+    it('sends the token given', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+        await newClient(mock, new HttpBearerAuthProvider('abc')).request('GET');
+
+        assert.equal(mock.calls[0].headers.get('authorization'), 'Bearer abc');
+    });
+});
+
+describe('HttpOAuth2AuthProvider', () => {
+    it('requests a single token for concurrent requests', async () => {
+        const mock = new HttpMockTransport()
+        .on({ path: '/token' }, { body: { access_token: 't1', expires_in: 3600 }, delay: 10 })
+        .on({ path: '/items' }, { body: { } });
+
+        const client = newClient(mock, newOAuth2AuthProvider(mock));
+
+        await Promise.all([ client.request('GET'), client.request('GET'), client.request('GET') ]);
+        await client.request('GET');
+
+        const tokenCalls = mock.getCalls({ path: '/token' });
+
+        assert.equal(tokenCalls.length, 1);
+        assert.equal(tokenCalls[0].headers.get('authorization'), 'Basic ' + Buffer.from('client:secret').toString('base64'));
+        assert.equal(String(tokenCalls[0].body), 'grant_type=client_credentials');
+        assert.deepEqual(mock.getCalls({ path: '/items' }).map((call) => call.headers.get('authorization')), Array(4).fill('Bearer t1'));
+    });
+
+    it('replays requests rejected with 401 with a new token', async () => {
+        const mock = new HttpMockTransport()
+        .on({ path: '/token' }, { body: { access_token: 't1', expires_in: 3600, refresh_token: 'r1' } }, 1)
+        .on({ path: '/token' }, { body: { access_token: 't2', expires_in: 3600 } })
+        .on({ headers: { authorization: 'Bearer t1' }, path: '/items' }, { status: 401 })
+        .on({ path: '/items' }, { body: { ok: true } });
+
+        const client = newClient(mock, newOAuth2AuthProvider(mock, { grantType: 'refresh_token' }));
+        const response = await client.request('GET');
+
+        assert.deepEqual(response.body, { ok: true });
+        assert.match(String(mock.getCalls({ path: '/token' })[1].body), /grant_type=refresh_token&refresh_token=r1/);
+    });
+
+    it('reuses tokens expiring within the expiry margin for half of their lifetime', async () => {
+        const mock = new HttpMockTransport()
+        .on({ path: '/token' }, { body: { access_token: 't1', expires_in: 10 } })
+        .on({ path: '/items' }, { body: { } });
+
+        const client = newClient(mock, newOAuth2AuthProvider(mock, { expiryMargin: 30 }));
+
+        await client.request('GET');
+        await client.request('GET');
+
+        mock.assertCalled({ path: '/token' }, 1);
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpJsonClient, HttpMockTransport, HttpPagination } = require('../lib/cjs/module');
+
+describe('HttpClient pagination', () => {
+    it('requests pages of the URL given with the offset strategy', async () => {
+        const mock = new HttpMockTransport()
+        .on({ query: { offset: '0' } }, { body: [ 1, 2 ] })
+        .on({ query: { offset: '2' } }, { body: [ 3 ] });
+
+        const client = new HttpJsonClient('http://api.test/', 30, { transport: mock.transport });
+        const pages = [ ];
+
+        for await (const page of client.paginate({ }, HttpPagination.offset(2), { url: '/users' })) {
+            pages.push(page);
+        }
+
+        assert.deepEqual(pages.map((page) => page.items), [ [ 1, 2 ], [ 3 ] ]);
+        assert.deepEqual(pages.map((page) => page.url), [ 'http://api.test/users', 'http://api.test/users' ]);
+        assert.deepEqual(mock.calls.map((call) => call.url), [ 'http://api.test/users?limit=2;offset=0', 'http://api.test/users?limit=2;offset=2' ]);
+    });
+
+    it('follows "Link" headers relative to the page requested', async () => {
+        const mock = new HttpMockTransport()
+        .on({ query: { page: '2' } }, { body: [ 'b' ] })
+        .on({ }, { body: [ 'a' ], headers: { link: '<users?page=2>; rel="next", <users?page=9>; rel="last"' } });
+
+        const client = new HttpJsonClient('http://api.test/v1/', 30, { transport: mock.transport });
+        const items = [ ];
+
+        for await (const item of client.paginateItems({ }, HttpPagination.link(), { url: 'users' })) {
+            items.push(item);
+        }
+
+        assert.deepEqual(items, [ 'a', 'b' ]);
+        assert.equal(mock.calls[1].url, 'http://api.test/v1/users?page=2');
+    });
+
+    it('passes the cursor of the body to the next page', async () => {
+        const mock = new HttpMockTransport()
+        .on({ query: { cursor: 'c2' } }, { body: { data: [ 2 ], meta: { next: null } } })
+        .on({ }, { body: { data: [ 1 ], meta: { next: 'c2' } } });
+
+        const client = new HttpJsonClient('http://api.test/users', 30, { transport: mock.transport });
+        const items = [ ];
+
+        for await (const item of client.paginateItems({ size: 1 }, HttpPagination.cursor('meta.next'), { items: 'data' })) {
+            items.push(item);
+        }
+
+        assert.deepEqual(items, [ 1, 2 ]);
+        assert.deepEqual(mock.calls[1].query, { cursor: 'c2', size: '1' });
+    });
+
+    it('stops requesting pages once the maximum number of items is reached', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: [ 1, 2 ] });
+        const client = new HttpJsonClient('http://api.test/users', 30, { transport: mock.transport });
+        const items = [ ];
+
+        for await (const item of client.paginateItems({ }, HttpPagination.offset(2), { maxItems: 3 })) {
+            items.push(item);
+        }
+
+        assert.deepEqual(items, [ 1, 2, 1 ]);
+        assert.equal(mock.calls.length, 2);
+    });
+
+    it('aborts prefetched pages if the iteration is left early', async () => {
+        const signals = [ ];
+
+        const transport = (request, init) => {
+            signals.push(init.signal);
+
+            return Promise.resolve(
+                new Response('[ 1 ]', { headers: { 'content-type': 'application/json', link: '<?page=2>; rel="next"' } })
+            );
+        };
+
+        const client = new HttpJsonClient('http://api.test/users', 30, { transport });
+
+        for await (const page of client.paginate({ }, HttpPagination.link(), { prefetch: true })) {
+            assert.deepEqual(page.items, [ 1 ]);
+            break;
+        }
+
+        assert.equal(signals.length, 2);
+        assert.equal(signals[1].aborted, true);
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpClient, HttpCodecRegistry, HttpJsonClient, HttpMockTransport, HttpStatusError } = require('../lib/cjs/module');
+
+const problemResponse = (body) => ({
+    body,
+    headers: { 'content-type': 'application/problem+json; charset=utf-8' },
+    status: 422,
+    statusText: 'Unprocessable Content'
+});
+
+describe('Problem Details', () => {
+    it('returns Problem Details of error responses', async () => {
+        const mock = new HttpMockTransport()
+        .on({ }, problemResponse({ detail: 'Name is missing', errors: [ 'name' ], status: 422, title: 'Invalid item' }));
+
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+        const response = await client.request('POST', { data: { } });
+
+        assert.deepEqual(
+            response.problem,
+            { detail: 'Name is missing', errors: [ 'name' ], status: 422, title: 'Invalid item', type: 'about:blank' }
+        );
+
+        assert.ok(response.body instanceof HttpStatusError);
+        assert.deepEqual(response.body.problem, response.problem);
+    });
+
+    it('rejects with status errors containing the Problem Details if enabled', async () => {
+        const mock = new HttpMockTransport().on({ }, problemResponse({ title: 'Invalid item', type: 'https://api.test/problems/invalid' }));
+        const client = new HttpJsonClient('http://api.test/items', 30, { throwErrors: true, transport: mock.transport });
+
+        const error = await client.request('POST', { data: { } }).catch((error) => error);
+
+        assert.ok(error instanceof HttpStatusError);
+        assert.deepEqual(error.problem, { title: 'Invalid item', type: 'https://api.test/problems/invalid' });
+    });
+
+    it('ignores standard members of an invalid type', async () => {
+        const mock = new HttpMockTransport().on({ }, problemResponse({ detail: [ 'a' ], status: '422', title: 5, type: 7 }));
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+
+        assert.deepEqual((await client.request('GET')).problem, { type: 'about:blank' });
+    });
+
+    it('decodes Problem Details with the codec registry', async () => {
+        const mock = new HttpMockTransport().on({ }, problemResponse({ title: 'Invalid item' }));
+        const client = new HttpClient('http://api.test/items', 30, false, { codecs: new HttpCodecRegistry(), transport: mock.transport });
+
+        assert.deepEqual((await client.request('GET')).problem, { title: 'Invalid item', type: 'about:blank' });
+    });
+
+    it('does not return Problem Details for other content types', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { title: 'Invalid item' }, status: 422 });
+        const client = new HttpJsonClient('http://api.test/items', 30, { transport: mock.transport });
+
+        const response = await client.request('GET');
+
+        assert.equal(response.problem, undefined);
+        assert.equal(response.body.problem, undefined);
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpJsonClient, HttpMockTransport, HttpScheduler } = require('../lib/cjs/module');
+
+describe('HttpScheduler', () => {
+    it('limits concurrent requests per host', async () => {
+        let active = 0;
+        let maxActive = 0;
+
+        const mock = new HttpMockTransport().on({ }, async (call) => {
+            active++;
+            maxActive = Math.max(active, maxActive);
+
+            await new Promise((resolve) => { setTimeout(resolve, 10); });
+            active--;
+
+            return { body: { path: call.path } };
+        });
+
+        const client = new HttpJsonClient(
+            'http://api.test/',
+            30,
+            { scheduler: new HttpScheduler({ maxConcurrentPerHost: 2 }), transport: mock.transport }
+        );
+
+        const responses = await Promise.all(
+            [ 1, 2, 3, 4, 5 ].map((id) => client.request('GET', { url: `http://api.test/${id}` }))
+        );
+
+        assert.equal(maxActive, 2);
+        assert.deepEqual(responses.map((response) => response.body.path), [ '/1', '/2', '/3', '/4', '/5' ]);
+    });
+
+    it('sends identical requests in flight only once', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { id: 1 }, delay: 10 });
+
+        const client = new HttpJsonClient(
+            'http://api.test/items',
+            30,
+            { scheduler: new HttpScheduler(), transport: mock.transport }
+        );
+
+        const responses = await Promise.all([ client.request('GET'), client.request('GET'), client.request('GET') ]);
+
+        assert.deepEqual(responses.map((response) => response.body), [ { id: 1 }, { id: 1 }, { id: 1 } ]);
+        mock.assertCalled({ }, 1);
+    });
+
+    it('waits for the rate limit with the timers of the client', async () => {
+        const delays = [ ];
+        const now = Date.now;
+
+        const timers = {
+            clearTimeout: (id) => { clearTimeout(id); },
+            setTimeout: (callback, delay) => {
+                delays.push(delay);
+                Date.now = () => now() + delay;
+
+                return setTimeout(callback, 0);
+            }
+        };
+
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+
+        // Requests are sent without a timeout to only record the rate limit waits
+        const client = new HttpJsonClient(
+            'http://api.test/items',
+            0,
+            {
+                environment: { timers },
+                scheduler: new HttpScheduler({ rateLimit: { burst: 1, requestsPerSecond: 1 } }),
+                transport: mock.transport
+            }
+        );
+
+        try {
+            await Promise.all([ client.request('GET', { params: { id: 1 } }), client.request('GET', { params: { id: 2 } }) ]);
+        } finally {
+            Date.now = now;
+        }
+
+        assert.ok(delays.some((delay) => delay > 0 && delay <= 1000));
+        mock.assertCalled({ }, 2);
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * direct JavaScript Toolbox
+ * All-in-one toolbox to provide more reusable JavaScript features
+ *
+ * (C) direct Netware Group - All rights reserved
+ * https://www.direct-netware.de/redirect?djt;http_client
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at http://mozilla.org/MPL/2.0/.
+ *
+ * https://www.direct-netware.de/redirect?licenses;mpl2
+ *
+ * @license Mozilla Public License, v. 2.0
+ */
+
+'use strict';
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { HttpJsonClient, HttpMockTransport, HttpUriTemplate } = require('../lib/cjs/module');
+
+describe('HttpUriTemplate', () => {
+    const variables = {
+        empty: '',
+        hello: 'Hello World!',
+        keys: { semi: ';', dot: '.', comma: ',' },
+        list: [ 'red', 'green', 'blue' ],
+        path: '/foo/bar',
+        var: 'value',
+        x: 1024,
+        y: 768
+    };
+
+    it('expands the examples of RFC 6570', () => {
+        const examples = {
+            'X{.list}': 'X.red,green,blue',
+            '{#hello}': '#Hello%20World!',
+            '{&x}': '&x=1024',
+            '{+path}/here': '/foo/bar/here',
+            '{/list*,path:4}': '/red/green/blue/%2Ffoo',
+            '{;x,y,empty}': ';x=1024;y=768;empty',
+            '{?keys*}': '?semi=%3B&dot=.&comma=%2C',
+            '{?x,undef}': '?x=1024',
+            '{?x,y,empty}': '?x=1024&y=768&empty=',
+            '{hello}': 'Hello%20World%21',
+            '{keys*}': 'semi=%3B,dot=.,comma=%2C',
+            '{list*}': 'red,green,blue',
+            '{var:3}': 'val',
+            '{var}': 'value'
+        };
+
+        for (const template of Object.keys(examples)) {
+            assert.equal(HttpUriTemplate.expand(template, variables), examples[template], template);
+        }
+    });
+});
+
+describe('HttpClient URL resolution', () => {
+    it('resolves URLs relative to the client URL', () => {
+        const client = new HttpJsonClient('http://api.test/v1?key=k');
+
+        assert.equal(client.resolveUrl('users'), 'http://api.test/v1/users?key=k');
+        assert.equal(client.resolveUrl('/status'), 'http://api.test/status?key=k');
+        assert.equal(client.resolveUrl('users?page=2'), 'http://api.test/v1/users?key=k;page=2');
+        assert.equal(client.resolveUrl('http://other.test/'), 'http://other.test/');
+    });
+
+    it('appends expanded query parameters with an ampersand', () => {
+        const client = new HttpJsonClient('http://api.test/v1?key=k');
+
+        assert.equal(
+            client.resolveUrl('users/{id}{?fields*}', { fields: [ 'a', 'b' ], id: 7 }),
+            'http://api.test/v1/users/7?key=k&fields=a&fields=b'
+        );
+    });
+
+    it('requests the URL template expanded', async () => {
+        const mock = new HttpMockTransport().on({ }, { body: { } });
+        const client = new HttpJsonClient('http://api.test/v1/', 30, { transport: mock.transport });
+
+        await client.request('GET', { url: 'users/{id}', variables: { id: 'a b' } });
+
+        assert.equal(mock.calls[0].url, 'http://api.test/v1/users/a%20b');
+    });
+});